@@ -1,6 +1,7 @@
-import { Circle, Img, makeScene2D, Node, Txt } from '@motion-canvas/2d';
+import { Circle, makeScene2D, Node, Txt } from '@motion-canvas/2d';
 import { createRef, easeOutBack, waitFor } from '@motion-canvas/core';
 import Experience from '../thrash/Experience';
+import ThrashMask from '../thrash/ThrashMask';
 
 import json from '../demo-scenes/sphere-scene-2.json';
 import { AmbientLight, Mesh, PerspectiveCamera, Vector3 } from 'three';
@@ -27,17 +28,11 @@ export default makeScene2D(function* (view) {
   yield* camera.lookat(ball.positionget(), 0);
   yield* camera.zoomin(40, 2);
 
-  const snapshot = core.renderSilhouetteSnapshot({ cacheKey: "horse" })
-  if (!snapshot) {
-    core.logger.warn?.('Silhouette snapshot is undefined');
-    return;
-  }
-  const dataUrl = snapshot.payload.toDataURL('image/png');
   const txt = createRef<Txt>();
   view.add(
     <Node composite cache >
-      <Img
-        src={dataUrl}
+      <ThrashMask
+        experience={core}
         />
       <Txt
         ref={txt}
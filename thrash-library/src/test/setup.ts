@@ -0,0 +1,4 @@
+// Motion Canvas' 2d modules import each other in a circle. Bundled, the
+// components come first; loading them the same way here keeps
+// `codeSignal` defined by the time Code.ts uses it.
+import '@motion-canvas/2d/lib/components';
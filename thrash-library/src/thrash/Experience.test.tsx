@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DependencyContext, endPlayback, endScene, PlaybackStatus, startPlayback, startScene, Vector2 } from '@motion-canvas/core';
+import { ACESFilmicToneMapping, BoxGeometry, Camera, Mesh, MeshBasicMaterial } from 'three';
+import Experience from './Experience';
+
+// No WebGL outside the browser; the Renderer only needs a renderer to hold on to
+vi.mock('./utils/contextPool', () => ({
+    contextPool: { acquire: () => ({}), release: () => { }, report: (): [] => [] },
+}));
+
+// Models "load" at once, one mesh each, except the stuck ones which never do
+vi.mock('three/examples/jsm/loaders/GLTFLoader', async () => {
+    const three = await import('three');
+    return {
+        GLTFLoader: class {
+            load(path: string, onLoad: (gltf: unknown) => void) {
+                if (path.startsWith('stuck')) return;
+                const scene = new three.Group();
+                scene.add(new three.Mesh(new three.BoxGeometry(), new three.MeshBasicMaterial()));
+                onLoad({ scene, animations: [] });
+            }
+        },
+    };
+});
+
+// Just enough of a Motion Canvas scene for nodes to be created
+const scene = {
+    logger: { debug: () => { }, info: () => { }, warn: () => { }, error: () => { } },
+    registerNode: (_: unknown, key?: string): [string, () => void] => [key ?? 'test/Experience[1]', () => { }],
+    getView: (): null => null,
+} as any;
+const playback = { frame: 0 } as PlaybackStatus;
+
+describe('Experience', () => {
+    beforeEach(() => { startScene(scene); startPlayback(playback); });
+    afterEach(() => { endPlayback(playback); endScene(scene); });
+
+    it('starts without a scene preset, with the default camera', () => {
+        const experience = new Experience({});
+        expect(experience.selectedScene).toBeDefined();
+        expect(experience.selectedCamera).toBeInstanceOf(Camera);
+        expect(experience.assets.geometries).toBeInstanceOf(Map);
+        expect(experience.assets.materials).toBeInstanceOf(Map);
+        expect(experience.assets.textures).toBeInstanceOf(Map);
+    });
+
+    it('applies the project settings of the scene switched to', () => {
+        const preset = (exposure: number, shadows: boolean) => ({
+            project: { toneMapping: ACESFilmicToneMapping, toneMappingExposure: exposure, shadows },
+            scene: { object: { type: 'Scene', uuid: 'scene-' + exposure } },
+        });
+        const experience = new Experience({ scenePresets: { a: preset(1.5, false), b: preset(0.5, true) }, shadows: false });
+        expect(experience.toneMappingExposure()).toBe(1.5);
+
+        experience.switchScene('b', 'cut').next();
+        expect(experience.toneMapping()).toBe(ACESFilmicToneMapping);
+        expect(experience.toneMappingExposure()).toBe(0.5);
+        // Given as a prop, so kept
+        expect(experience.shadows()).toBe(false);
+    });
+
+    it('leaves loader cached models alone when disposed', async () => {
+        const experience = new Experience({});
+        const model = (await experience.loadGLTF('crate.glb')).scene.children[0] as Mesh;
+        const own = new Mesh(new BoxGeometry(), new MeshBasicMaterial());
+        experience.selectedScene.add(model.clone(), own);
+
+        const disposed: unknown[] = [];
+        [model.geometry, model.material as MeshBasicMaterial, own.geometry, own.material].forEach((resource) => {
+            resource.addEventListener('dispose', () => disposed.push(resource));
+        });
+        experience.dispose();
+        expect(disposed).toEqual([own.geometry, own.material]);
+    });
+
+    it('waits for loads started after a timed out wait', async () => {
+        vi.useFakeTimers();
+        try {
+            const experience = new Experience({ loadTimeout: 1 });
+            const awaitloads = () => (experience as unknown as { awaitloads: () => void }).awaitloads();
+            // Lets the collected waits run out, as Motion Canvas would wait for them
+            const timeout = async () => {
+                const waits = DependencyContext.consumePromises();
+                await vi.advanceTimersByTimeAsync(1000);
+                await waits;
+            };
+            experience.loadGLTF('stuck.glb');
+            awaitloads();
+            expect(DependencyContext.hasPromises()).toBe(true);
+            await timeout();
+
+            // The frame is drawn again without the stuck model
+            awaitloads();
+            expect(DependencyContext.hasPromises()).toBe(false);
+
+            experience.loadGLTF('stuck-too.glb');
+            awaitloads();
+            expect(DependencyContext.hasPromises()).toBe(true);
+            await timeout();
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('caches snapshots by what they show, not by frame', () => {
+        const experience = new Experience({});
+        // No layout and no 2D canvas in jsdom, the snapshots stay blank
+        vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+        vi.spyOn(experience as unknown as { computedSize: () => Vector2 }, 'computedSize').mockReturnValue(new Vector2(64, 64));
+        const crate = new Mesh(new BoxGeometry(), new MeshBasicMaterial());
+        experience.selectedScene.add(crate);
+
+        const first = experience.renderSnapshot({ pass: 'matte', objects: [crate], useCache: true });
+        expect(experience.renderSnapshot({ pass: 'matte', objects: [crate], useCache: true })).toBe(first);
+
+        // Same frame, but the scene changed
+        crate.position.x = 1;
+        expect(experience.renderSnapshot({ pass: 'matte', objects: [crate], useCache: true })).not.toBe(first);
+    });
+});
@@ -1,42 +1,184 @@
 import * as THREE from 'three';
-import { Rect, RectProps } from "@motion-canvas/2d";
-import Loader from "./utils/Loader";
-import importScene, { sceneJSON } from './utils/importScene';
-import { Color, Logger, PossibleColor, useLogger } from '@motion-canvas/core';
+import { initial, Node, Rect, RectProps, signal } from "@motion-canvas/2d";
+import Loader, { isCachedResource } from "./utils/Loader";
+import importScene, { ProjectSettings, sceneJSON } from './utils/importScene';
+import { Color, Computed, createComputed, DependencyContext, easeInOutCubic, Logger, PlaybackState, PossibleColor, SignalValue, SimpleSignal, tween, useLogger, useThread, Vector2 } from '@motion-canvas/core';
 import Renderer from './utils/Renderer';
-import ObjectWrapper from './wrappers/ObjectWrapper';
+import ObjectWrapper, { MaterialOptions, TextureSlot, WorldTarget } from './wrappers/ObjectWrapper';
 import { getVector3, PossibleVector3 } from './utils/vectors';
+import { createPath, PathOptions } from './utils/paths';
+import { describeQuery, ObjectQuery, queryObjects } from './utils/query';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import AnimationWrapper from './wrappers/AnimationWrapper';
 import PerspectiveCameraWrapper from './wrappers/CameraWrapper';
-import { CachedFrame, frameCache } from './utils/frameCache';
+import OrthographicCameraWrapper from './wrappers/OrthographicCameraWrapper';
+import GroupWrapper, { StaggerOptions } from './wrappers/GroupWrapper';
+import { CachedFrame, frameCache, hashValues } from './utils/frameCache';
+import { captureFrameState } from './utils/frameState';
+import { contextPool } from './utils/contextPool';
+import { SceneTransitionOptions, SceneTransitionState, SceneTransitionType } from './utils/SceneTransition';
+import EffectChain, { PostEffect } from './utils/PostProcessing';
+import NodeTexture, { NodeTextureOptions } from './utils/NodeTexture';
+import { idObjects, SnapshotPass } from './utils/snapshots';
+
+// Assets imported with a scene. Every scene keeps its own set.
+export interface SceneAssets {
+    meshes: { [name: string]: any };
+    materials: Map<string, THREE.Material>;
+    geometries: Map<string, THREE.BufferGeometry>;
+    textures: Map<string, THREE.Texture>;
+}
+
+export interface MeshLoadOptions {
+    scale?: PossibleVector3,
+    position?: PossibleVector3,
+    rotation?: THREE.Euler,
+    path: string
+}
+
+// Everything an Experience needs loaded before its frames are final
+export interface AssetManifest {
+    // Models swapped in for the placeholder objects of the same name
+    meshes?: { [name: string]: MeshLoadOptions }
+    environment?: { path: string, sky?: boolean, intensity?: number }
+    // Extra textures, stored in the selected scene's assets under their key
+    textures?: { [name: string]: string }
+}
+
+// Something to single out in a mask: an object, its wrapper or its name
+export type MaskTarget = string | THREE.Object3D | ObjectWrapper<THREE.Object3D>;
+
+export interface SnapshotOptions {
+    camera?: THREE.Camera,
+    root?: THREE.Object3D,
+    cacheKey?: string,
+    useCache?: boolean,
+    verbose?: boolean,
+}
+
+// A 3D point followed on screen. Usable directly as a node position;
+// `visible` is false while the point is behind the camera or off screen.
+export interface ProjectedPoint extends Computed<Vector2> {
+    visible: Computed<boolean>;
+    // Distance from the camera, in world units
+    depth: Computed<number>;
+}
+
+export interface RenderQuality {
+    // Multiplier on the output pixel density (resolution scale times device
+    // pixel ratio): below 1 renders faster, above 1 supersamples
+    resolution?: number;
+    // MSAA samples, 0 turns it off
+    samples?: number;
+}
+
+// Largest side of the 3D canvas, in pixels
+const MAX_CANVAS_SIZE = 8192;
 
 export interface ExperienceProps extends RectProps {
     initialScenePreset?: sceneJSON
+    // Additional named scenes, switched to with `switchScene`
+    scenePresets?: { [name: string]: sceneJSON }
+    // Name of the scene shown first (defaults to the initial preset)
+    initialScene?: string
+
+    // Override the preset's `project` block
+    shadows?: SignalValue<boolean>
+    shadowType?: SignalValue<THREE.ShadowMapType>
+    toneMapping?: SignalValue<THREE.ToneMapping>
+    toneMappingExposure?: SignalValue<number>
+    // Defaults: previews at the output density without MSAA, exports with 4x MSAA
+    previewQuality?: SignalValue<RenderQuality>
+    exportQuality?: SignalValue<RenderQuality>
+    // Skip rendering frames where nothing 3D changed (default true)
+    renderOnDemand?: SignalValue<boolean>
+
+    assets?: AssetManifest
+    // Seconds to wait for pending loads before giving up (default 30)
+    loadTimeout?: number
+
+    // Post-processing effects, in order (more can be added through `effects`)
+    effects?: PostEffect[]
 }
 
 /*
 
     Experience doesn't directly represent a THREE.Scene
     It's built to support multiple Scenes / Camera and additional support features
+    Scenes are named; each one keeps its own assets, project settings and cameras
 
 */
 export default class Experience extends Rect {
 
+    // Renderer settings. Unless given as props they are taken from the
+    // selected scene's `project` block, so renders match the three.js editor.
+    // switchScene() applies the settings of the scene switched to.
+    @initial(true)
+    @signal()
+    public declare readonly shadows: SimpleSignal<boolean, this>;
+
+    @initial(THREE.PCFShadowMap)
+    @signal()
+    public declare readonly shadowType: SimpleSignal<THREE.ShadowMapType, this>;
+
+    @initial(THREE.NoToneMapping)
+    @signal()
+    public declare readonly toneMapping: SimpleSignal<THREE.ToneMapping, this>;
+
+    @initial(1)
+    @signal()
+    public declare readonly toneMappingExposure: SimpleSignal<number, this>;
+
+    // Resolution and antialiasing while editing, and while rendering to files
+    @initial({ resolution: 1, samples: 0 })
+    @signal()
+    public declare readonly previewQuality: SimpleSignal<RenderQuality, this>;
+
+    @initial({ resolution: 1, samples: 4 })
+    @signal()
+    public declare readonly exportQuality: SimpleSignal<RenderQuality, this>;
+
+    // Reuse the last frame while nothing in the scene, camera or size
+    // changed. Objects with userData.alwaysRender opt out (e.g. shaders
+    // with their own clock), invalidate() forces a single render.
+    @initial(true)
+    @signal()
+    public declare readonly renderOnDemand: SimpleSignal<boolean, this>;
+
     private _loader: Loader;
     private _renderer: Renderer;
     public logger: Logger | Console;
 
-    private scenes: THREE.Scene[];
-    private cameras: THREE.Camera[]
+    private scenes: Map<string, THREE.Scene>;
+    // Cameras by name, and the cameras each scene brought along (first = default)
+    private cameras: Map<string, THREE.Camera>;
+    private sceneCameras = new Map<THREE.Scene, THREE.Camera[]>();
+    private projects = new Map<THREE.Scene, ProjectSettings>();
+    // Settings given as props, which no project block overrides
+    private fixedSettings = new Set<keyof ProjectSettings>();
+    private sceneAssets = new Map<THREE.Scene, SceneAssets>();
+    // Camera each scene was last viewed through, restored when switching back
+    private activeCameras = new Map<THREE.Scene, THREE.Camera>();
 
     public selectedScene: THREE.Scene;
     public selectedCamera: THREE.Camera;
 
-    public assets = {
-        meshes: {},
-        materials: {},
-        geometries: {}
-    }
+    // Scene transition in progress, drawn by the Renderer
+    public transition?: SceneTransitionState;
+
+    // Post-processing applied to whatever is on screen
+    public readonly effects = new EffectChain();
+
+    private loadTimeout: number;
+    // Loads started when a wait in draw() last timed out; only newer loads are waited for
+    private loadsGivenUp = -1;
+
+    // One wrapper per object so every handle shares the same signals
+    private wrappers = new Map<THREE.Object3D, ObjectWrapper<any>>();
+    private animators = new Map<THREE.Object3D, AnimationWrapper>();
+    // 2D nodes drawn onto meshes, refreshed before every render
+    private nodeTextures: NodeTexture[] = [];
 
 
     constructor(props: ExperienceProps) {
@@ -45,55 +187,134 @@ export default class Experience extends Rect {
         this._loader = new Loader(this);
         this._renderer = new Renderer(this);
         this.logger = useLogger();
-        this.scenes = [];
-        this.cameras = [];
+        this.scenes = new Map();
+        this.cameras = new Map();
 
-        this.selectedScene = this.createScene(props.initialScenePreset);
+        if (props.initialScenePreset !== undefined || !props.scenePresets) {
+            this.selectedScene = this.createScene(props.initialScenePreset, "default");
+        }
+        Object.entries(props.scenePresets ?? {}).forEach(([name, preset]) => {
+            const scene = this.createScene(preset, name);
+            this.selectedScene ??= scene;
+        });
+        if (props.initialScene !== undefined) {
+            this.selectedScene = this.getScene(props.initialScene) ?? this.selectedScene;
+        }
         this.selectedCamera = this.createCamera(this.selectedScene);
 
+        (['shadows', 'shadowType', 'toneMapping', 'toneMappingExposure'] as const).forEach((setting) => {
+            if (props[setting] !== undefined) this.fixedSettings.add(setting);
+        });
+        this.applyproject(this.selectedScene);
+
+        this.loadTimeout = props.loadTimeout ?? 30;
+        props.effects?.forEach((effect) => this.effects.add(effect));
+        if (props.assets) this.loadassets(props.assets);
+
     }
 
-    public createScene(from?: sceneJSON): THREE.Scene {
-        const data = importScene(from);
+    public createScene(from?: sceneJSON, name: string = "scene-" + this.scenes.size): THREE.Scene {
+        const data = importScene(from, this.logger, this._loader);
         let scene: THREE.Scene = data.scene;
+        scene.name = name;
+
+        if (this.scenes.has(name)) {
+            this.logger.warn("A scene named " + name + " already exists and is replaced.");
+        }
 
-        this.assets.geometries = data.geomMap;
-        this.assets.materials = data.matMap;
+        this.sceneAssets.set(scene, {
+            meshes: {},
+            geometries: data.geomMap,
+            materials: data.matMap,
+            textures: data.texMap,
+        });
+        this.projects.set(scene, data.project);
+
+        data.cameras.forEach((camera) => this.registerCamera(camera));
+        this.sceneCameras.set(scene, data.cameras);
+
+        this.scenes.set(name, scene);
 
-        this.scenes.push(scene);
+        return scene;
+    }
 
+    public getScene(name: string): THREE.Scene | undefined {
+        const scene = this.scenes.get(name);
+        if (!scene) this.logger.error("Scene called " + name + " not found!");
         return scene;
     }
 
+    // Assets of a named scene, or of the selected one
+    public getAssets(name?: string): SceneAssets | undefined {
+        const scene = name === undefined ? this.selectedScene : this.getScene(name);
+        return this.sceneAssets.get(scene);
+    }
+
+    get assets(): SceneAssets {
+        return this.getAssets();
+    }
+
+    // Makes another scene the selected one. Unless the transition is a cut,
+    // the Renderer draws both scenes while the transition runs.
+    *switchScene(
+        name: string,
+        transition: SceneTransitionType = 'crossfade',
+        time: number = 1,
+        ease = easeInOutCubic,
+        options: SceneTransitionOptions = {}
+    ) {
+        const next = this.getScene(name);
+        if (!next || next === this.selectedScene) return;
+
+        const from = { scene: this.selectedScene, camera: this.selectedCamera };
+        this.activeCameras.set(from.scene, from.camera);
+
+        this.selectedScene = next;
+        this.selectedCamera = this.activeCameras.get(next) ?? this.createCamera(next);
+        this.applyproject(next);
+
+        if (transition === 'cut' || time <= 0) return;
+
+        const [dx, dy] = options.direction ?? [1, 0];
+        const state: SceneTransitionState = {
+            from,
+            type: transition,
+            progress: 0,
+            direction: new THREE.Vector2(dx, dy),
+            softness: options.softness ?? 0.1,
+        };
+        this.transition = state;
+
+        yield* tween(time, (value: number) => {
+            state.progress = ease(value);
+        });
+
+        if (this.transition === state) this.transition = undefined;
+    }
+
+    private applyproject(scene: THREE.Scene) {
+        const project = this.projects.get(scene);
+        if (!project) return;
+        if (!this.fixedSettings.has('shadows')) this.shadows(project.shadows);
+        if (!this.fixedSettings.has('shadowType')) this.shadowType(project.shadowType);
+        if (!this.fixedSettings.has('toneMapping')) this.toneMapping(project.toneMapping);
+        if (!this.fixedSettings.has('toneMappingExposure')) this.toneMappingExposure(project.toneMappingExposure);
+    }
+
     public createCamera(object?: THREE.Camera | THREE.Scene): THREE.Camera {
         if (typeof object == 'object') {
             if (object instanceof THREE.Scene) {
-                // grabs camera from scene
+                // grabs the scene's default camera, registered on import
                 const scene = object;
+                const camera = this.sceneCameras.get(scene)?.[0];
+                if (camera) return camera;
 
-                // perform search (not efficient)
-                let camera: THREE.Camera;
-                const inspecting = [...scene.children];
-                while (inspecting.length > 0) {
-                    const item = inspecting.pop();
-                    if (item instanceof THREE.Camera) {
-                        camera = item;
-                        break;
-                    }
-                    inspecting.push(...item.children);
-                }
-
-                if (camera) {
-                    this.cameras.push(camera);
-                    return camera
-                }
                 // no camera case
                 this.logger.warn("No camera found in scene. Creating new one instead." + scene.id);
                 return this.createCamera();
 
             } else {
-                this.cameras.push(object);
-                return object;
+                return this.registerCamera(object);
             }
         }
         // instantiate default camera
@@ -102,22 +323,129 @@ export default class Experience extends Rect {
         const defaultpos = new THREE.Vector3(1, 1, 1);
         camera.position.copy(defaultpos);
 
-        this.cameras.push(camera);
+        return this.registerCamera(camera);
+    }
 
+    // Makes a camera reachable by name. Unnamed cameras, and names already
+    // taken by another camera, fall back to the uuid.
+    public registerCamera<C extends THREE.Camera>(camera: C): C {
+        let key = camera.name || camera.uuid;
+        const existing = this.cameras.get(key);
+        if (existing && existing !== camera) {
+            this.logger.debug("A camera named " + key + " is already registered. Registering " + camera.uuid + " by uuid instead.");
+            key = camera.uuid;
+        }
+        this.cameras.set(key, camera);
         return camera;
     }
 
+    // Cameras of the selected scene win over same-named ones elsewhere
+    public findCamera(name: string): THREE.Camera | undefined {
+        const local = this.sceneCameras.get(this.selectedScene)?.find((camera) => camera.name === name);
+        return local ?? this.cameras.get(name);
+    }
+
+    private resolveCamera(camera: string | THREE.Camera) {
+        if (typeof camera !== 'string') return camera;
+        const found = this.findCamera(camera);
+        if (!found) this.logger.error("Camera called " + camera + " not found!");
+        return found;
+    }
+
+    // Hard cut to another camera
+    cut(camera: string | THREE.Camera) {
+        const next = this.resolveCamera(camera);
+        if (next) this.selectedCamera = next;
+    }
+
+    // Blends from the selected camera into another one. A stand-in camera
+    // interpolates world position, orientation, fov (or ortho zoom and height)
+    // and near/far between both cameras every frame (so either may keep moving), then the target
+    // becomes the selected camera.
+    *blend(camera: string | THREE.Camera, time: number = 1, ease = easeInOutCubic) {
+        const from = this.selectedCamera;
+        const to = this.resolveCamera(camera);
+        if (!to || to === from) return;
+
+        const blendCamera = to.clone(false) as THREE.Camera;
+        blendCamera.name = "CameraBlend";
+        this.selectedCamera = blendCamera;
+
+        const fromPos = new THREE.Vector3();
+        const toPos = new THREE.Vector3();
+        const fromQuat = new THREE.Quaternion();
+        const toQuat = new THREE.Quaternion();
+
+        yield* tween(time, (value: number) => {
+            const t = ease(value);
+
+            from.updateMatrixWorld();
+            to.updateMatrixWorld();
+            from.getWorldPosition(fromPos);
+            to.getWorldPosition(toPos);
+            from.getWorldQuaternion(fromQuat);
+            to.getWorldQuaternion(toQuat);
+
+            blendCamera.position.lerpVectors(fromPos, toPos, t);
+            blendCamera.quaternion.slerpQuaternions(fromQuat, toQuat, t);
+
+            const a = from as THREE.PerspectiveCamera;
+            const b = to as THREE.PerspectiveCamera;
+            const blended = blendCamera as THREE.PerspectiveCamera;
+            if (a.isPerspectiveCamera && b.isPerspectiveCamera) {
+                blended.fov = THREE.MathUtils.lerp(a.fov, b.fov, t);
+            }
+            const oa = from as THREE.OrthographicCamera;
+            const ob = to as THREE.OrthographicCamera;
+            if (oa.isOrthographicCamera && ob.isOrthographicCamera) {
+                const ortho = blendCamera as THREE.OrthographicCamera;
+                ortho.zoom = THREE.MathUtils.lerp(oa.zoom, ob.zoom, t);
+                ortho.top = THREE.MathUtils.lerp(oa.top, ob.top, t);
+                ortho.bottom = THREE.MathUtils.lerp(oa.bottom, ob.bottom, t);
+            }
+            if (typeof a.near === 'number' && typeof b.near === 'number') {
+                blended.near = THREE.MathUtils.lerp(a.near, b.near, t);
+                blended.far = THREE.MathUtils.lerp(a.far, b.far, t);
+            }
+            blended.updateProjectionMatrix?.();
+        });
+
+        this.selectedCamera = to;
+    }
+
+    // Motion Canvas awaits collected promises and draws the frame again,
+    // so no frame is final before the assets are in. Each wait has its own
+    // timeout; loads it gave up on hold back no later frame, new loads do.
+    private awaitloads() {
+        const started = this._loader.getStartedCount();
+        if (!this._loader.isLoading() || started === this.loadsGivenUp) return;
+
+        DependencyContext.collectPromise(this._loader.whenIdle(this.loadTimeout).then((idle) => {
+            if (idle) return;
+            this.loadsGivenUp = Math.max(this.loadsGivenUp, started);
+            this.logger.error("Assets still loading after " + this.loadTimeout + "s, rendering without them.\n" + this._loader.report());
+        }));
+    }
+
     protected override draw(context: CanvasRenderingContext2D) {
+        this.awaitloads();
+
+        this.nodeTextures.forEach((nodeTexture) => nodeTexture.update());
+
         const size = this.computedSize();
         const { width, height } = size;
 
-        const renderElement = this._renderer.render(size);
+        const quality = this.quality();
+        const renderElement = this._renderer.render(size, this.pixelratio(context, size), quality.samples ?? 0);
+        // Supersampled frames are scaled down here
+        context.imageSmoothingEnabled = true;
+        context.imageSmoothingQuality = 'high';
         context.drawImage(
             renderElement,
             0,
             0,
-            width,
-            height,
+            renderElement.width,
+            renderElement.height,
             width / -2,
             height / -2,
             width,
@@ -127,6 +455,22 @@ export default class Experience extends Rect {
         super.draw(context);
     }
 
+    // Quality settings of the current frame: export while rendering to files
+    public quality(): RenderQuality {
+        return this.view()?.playbackState() === PlaybackState.Rendering ? this.exportQuality() : this.previewQuality();
+    }
+
+    // Pixels per unit for a 3D layer drawn with this context: whatever the
+    // context is scaled by (resolution scale, device pixel ratio, parent
+    // scales) times the quality's resolution
+    public pixelratio(context: CanvasRenderingContext2D, size: Vector2) {
+        const matrix = context.getTransform();
+        const density = Math.hypot(matrix.a, matrix.b) || 1;
+        const ratio = density * (this.quality().resolution ?? 1);
+        // Browsers refuse canvases (and GPUs textures) much larger than this
+        return Math.min(ratio, MAX_CANVAS_SIZE / Math.max(size.x, size.y, 1));
+    }
+
     get<T extends THREE.Object3D>(name: string) {
         // returns a wrapped refrence to the first child named so
 
@@ -135,23 +479,151 @@ export default class Experience extends Rect {
             this.selectedScene.getObjectByName(name);
 
         if (item)
-            return new ObjectWrapper(item) as ObjectWrapper<T>;
+            return this.wrapobject(item as T);
 
         this.logger.error("Object called " + name + " not found!")
 
     }
 
-    loadmeshes(meshes: {
-        [key: string]: {
-            scale?: PossibleVector3,
-            position?: PossibleVector3,
-            rotation?: THREE.Euler,
-            path: string
+    // Every object of the selected scene matching a query (a string is a
+    // name glob, e.g. 'Cube*'), wrapped as a group to animate together
+    query<T extends THREE.Object3D = THREE.Object3D>(selector: ObjectQuery | string, options: StaggerOptions = {}) {
+        const found = queryObjects(this.selectedScene, selector);
+        if (found.length === 0) {
+            this.logger.warn("No object matches " + describeQuery(selector));
         }
-    }) {
+        return new GroupWrapper(found.map((object) => this.wrapobject(object as T)), options);
+    }
+
+    // Group of explicitly listed objects, wrappers or object names
+    group<T extends THREE.Object3D = THREE.Object3D>(items: (string | T | ObjectWrapper<T>)[], options: StaggerOptions = {}) {
+        const wrappers = items
+            .map((item) => typeof item === 'string' ? this.get<T>(item) : item instanceof ObjectWrapper ? item : this.wrapobject(item))
+            .filter((wrapper) => wrapper !== undefined);
+        return new GroupWrapper(wrappers, options);
+    }
+
+    // World-space curve through points, objects, or the names of objects
+    // (usually empties placed in the editor) of the selected scene
+    path(points: (string | THREE.Object3D | PossibleVector3)[], options: PathOptions = {}) {
+        const resolved = points.map((point) => {
+            const object = typeof point === 'string' ? this.selectedScene.getObjectByName(point) : point;
+            if (object === undefined) {
+                throw new Error("Path point " + point + " not found in the selected scene");
+            }
+            if (object instanceof THREE.Object3D) {
+                object.updateMatrixWorld(true);
+                return object.getWorldPosition(new THREE.Vector3());
+            }
+            return getVector3(object);
+        });
+        return createPath(resolved, options);
+    }
+
+    // Screen position of a world point, object, wrapper or named object, in
+    // this node's parent space, so a sibling can take it as is:
+    // `<Txt position={core.project(ball)} />`. Pass 'local' for children.
+    // Re-evaluated every frame, so it follows any motion, cut or resize.
+    project(target: WorldTarget | string, space: 'local' | 'parent' = 'parent'): ProjectedPoint {
+        // The root thread's time changes every frame, even if nothing a
+        // signal knows about (a camera blend, a mixer...) does
+        const thread = useThread().root;
+
+        const state = createComputed(() => {
+            thread.time();
+            const size = this.computedSize();
+            const camera = this.selectedCamera;
+
+            const world = new THREE.Vector3();
+            const resolved = typeof target === 'string' ? this.selectedScene.getObjectByName(target) : target;
+            const object = resolved instanceof ObjectWrapper ? resolved.object : resolved;
+            if (object instanceof THREE.Object3D) {
+                object.updateWorldMatrix(true, false);
+                object.getWorldPosition(world);
+            } else if (object !== undefined) {
+                world.copy(getVector3(object));
+            }
+
+            if (!camera || !object || size.x <= 0 || size.y <= 0) {
+                return { position: Vector2.zero, visible: false, depth: 0 };
+            }
+
+            this._renderer.syncAspect(camera, size);
+            camera.updateWorldMatrix(true, false);
+            const depth = world.distanceTo(camera.getWorldPosition(new THREE.Vector3()));
+            const ndc = world.clone().project(camera);
+
+            let position = new Vector2(ndc.x * size.x / 2, -ndc.y * size.y / 2);
+            if (space === 'parent') position = position.transformAsPoint(this.localToParent());
+
+            const inFront = ndc.z >= -1 && ndc.z <= 1;
+            const onScreen = Math.abs(ndc.x) <= 1 && Math.abs(ndc.y) <= 1;
+            return { position, visible: inFront && onScreen, depth };
+        });
+
+        const point = createComputed(() => state().position) as ProjectedPoint;
+        point.visible = createComputed(() => state().visible);
+        point.depth = createComputed(() => state().depth);
+        return point;
+    }
+
+    // Shows a 2D node (or ref) on a mesh, in the material's `map` by default.
+    // The node doesn't need to be in the view; it is redrawn only when its
+    // signals change. Shared materials are copied unless `unique` is false.
+    nodetexture(
+        node: Node | (() => Node),
+        target: string | THREE.Object3D | ObjectWrapper<THREE.Object3D>,
+        options: NodeTextureOptions & MaterialOptions & { slot?: TextureSlot } = {},
+    ) {
+        const wrapper = typeof target === 'string'
+            ? this.get(target)
+            : target instanceof ObjectWrapper ? target : this.wrapobject(target);
+        if (!wrapper) return;
+
+        const nodeTexture = new NodeTexture(node, options);
+        wrapper.texture(options.slot ?? 'map', nodeTexture.texture, {
+            index: options.index,
+            unique: options.unique ?? true,
+            deep: options.deep,
+        });
+        this.nodeTextures.push(nodeTexture);
+        return nodeTexture;
+    }
+
+    wrapobject<T extends THREE.Object3D>(object: T): ObjectWrapper<T> {
+        let wrapper = this.wrappers.get(object);
+        if (!wrapper) {
+            wrapper = object instanceof THREE.PerspectiveCamera
+                ? new PerspectiveCameraWrapper(object)
+                : object instanceof THREE.OrthographicCamera
+                    ? new OrthographicCameraWrapper(object)
+                    : new ObjectWrapper(object);
+            this.wrappers.set(object, wrapper);
+        }
+        return wrapper as ObjectWrapper<T>;
+    }
+
+    loadassets(manifest: AssetManifest) {
+        if (manifest.meshes) this.loadmeshes(manifest.meshes);
+        if (manifest.environment) {
+            const { path, sky = false, intensity = 1 } = manifest.environment;
+            this.environment(path, { sky, intensity });
+        }
+        const scene = this.selectedScene;
+        Object.entries(manifest.textures ?? {}).forEach(([name, path]) => {
+            this._loader.loadTexture(path, (texture) => {
+                this.sceneAssets.get(scene).textures.set(name, texture);
+            });
+        });
+    }
+
+    loadmeshes(meshes: { [key: string]: MeshLoadOptions }) {
         // const meshesmap = new Map(Object.entries(meshes));
 
         this.assets.meshes = {};
+        // The callbacks may run after a scene switch; stay on this one
+        const scene = this.selectedScene;
+        const loaded = this.assets.meshes;
 
         Object.entries(meshes).forEach(([name, modeldata]) => {
             const { scale, position, rotation, path } = modeldata;
@@ -163,9 +635,13 @@ export default class Experience extends Rect {
                 template = gltf.scene;
 
                 // perform search (not efficient)
-                const inspecting = [...this.selectedScene.children];
-                this.selectedScene.getObjectsByProperty('name', name).map(item => {
-                    let model = template.clone();
+                loaded[name] = [];
+                scene.getObjectsByProperty('name', name).map(item => {
+                    // SkeletonUtils rebinds skinned meshes to the cloned bones
+                    let model = cloneSkinned(template);
+                    // Take over the placeholder's name so get()/animations() find the model
+                    model.name = item.name;
+                    model.animations = gltf.animations;
 
                     // base props
                     model.position.copy(item.position);
@@ -190,6 +666,7 @@ export default class Experience extends Rect {
                     // delete and put
                     item.parent.add(model);
                     item.removeFromParent();
+                    loaded[name].push(model);
 
                 });
                 
@@ -200,21 +677,22 @@ export default class Experience extends Rect {
     }
 
     addGeometries(geometries: Map<string, THREE.BufferGeometry>) {
-        this.assets.geometries = { ...this.assets.geometries, ...geometries };
+        geometries.forEach((geometry, key) => this.assets.geometries.set(key, geometry));
     }
 
     addMaterials(materials: Map<string, THREE.Material>) {
-        this.assets.materials = { ...this.assets.materials, ...materials };
+        materials.forEach((material, key) => this.assets.materials.set(key, material));
     }
 
     environment(path: string, properites = {
         sky: false,
         intensity: 1,
     }) {
+        const scene = this.selectedScene;
         this._loader.loadTexture(path, (texture) => {
-            this.selectedScene.environment = texture;
-            if (properites.sky) this.selectedScene.background = texture;
-            if (properites.intensity) this.selectedScene.environmentIntensity = properites.intensity;
+            scene.environment = texture;
+            if (properites.sky) scene.background = texture;
+            if (properites.intensity) scene.environmentIntensity = properites.intensity;
         });
     }
 
@@ -222,22 +700,212 @@ export default class Experience extends Rect {
         this.selectedScene.background = new THREE.Color(new Color(color).hex());
     }
 
-    getCamera() {
+    // Wrapper for a named camera, or the selected one. Perspective cameras
+    // are assumed; pass OrthographicCameraWrapper as the type for ortho ones.
+    getCamera<W extends ObjectWrapper<THREE.Camera> = PerspectiveCameraWrapper>(name?: string): W {
+        const camera = name === undefined ? this.selectedCamera : this.findCamera(name);
+        if (!camera) {
+            this.logger.error("Camera called " + name + " not found!");
+            return;
+        }
+        return this.wrapobject(camera) as ObjectWrapper<THREE.Camera> as W;
+    }
+
+    // Timeline-driven animation clips of the first object so named that has any
+    animations(name: string): AnimationWrapper | undefined {
+        let found: THREE.Object3D | undefined;
+        this.selectedScene.traverse((child) => {
+            if (!found && child.name === name && child.animations.length > 0) found = child;
+        });
+
+        if (!found) {
+            this.logger.error("No animated object called " + name + " found!");
+            return;
+        }
 
-        return new PerspectiveCameraWrapper(this.get<THREE.PerspectiveCamera>("PerspectiveCamera").object);
+        let animator = this.animators.get(found);
+        if (!animator) {
+            animator = new AnimationWrapper(found);
+            this.animators.set(found, animator);
+        }
+        return animator;
+    }
+
+    public override dispose() {
+        // Hand the THREE objects back in their initial state, so anything
+        // that outlives this node (cached models, shared objects) doesn't
+        // keep the transforms of a discarded playback.
+        this.wrappers.forEach((wrapper) => {
+            wrapper.reset();
+            wrapper.dispose();
+        });
+        this.wrappers.clear();
+        this.animators.forEach((animator) => {
+            animator.reset();
+            animator.dispose();
+        });
+        this.animators.clear();
+        this.effects.dispose();
+        this.nodeTextures.forEach((nodeTexture) => nodeTexture.dispose());
+        this.nodeTextures = [];
+        this.disposeresources();
+        this._renderer.dispose();
+        super.dispose();
+    }
+
+    // Frees the GPU copies of the geometries, materials and textures of the
+    // scenes. Those of loaded models and textures belong to the loader's
+    // caches, shared with other Experiences and the next seek, and are kept.
+    private disposeresources() {
+        const disposables = new Set<{ dispose: () => void }>();
+        const addmaterial = (material: THREE.Material) => {
+            disposables.add(material);
+            Object.values(material).forEach((value) => {
+                if (value instanceof THREE.Texture) disposables.add(value);
+            });
+        };
+
+        this.scenes.forEach((scene) => {
+            if (scene.background instanceof THREE.Texture) disposables.add(scene.background);
+            if (scene.environment) disposables.add(scene.environment);
+            scene.traverse((object) => {
+                const holder = object as THREE.Object3D & { geometry?: THREE.BufferGeometry, material?: THREE.Material | THREE.Material[] };
+                if (holder.geometry) disposables.add(holder.geometry);
+                if (holder.material) (Array.isArray(holder.material) ? holder.material : [holder.material]).forEach(addmaterial);
+                if ((object as THREE.Light).shadow?.map) disposables.add((object as THREE.Light).shadow.map);
+            });
+        });
+        this.sceneAssets.forEach((assets) => {
+            assets.geometries.forEach((geometry) => disposables.add(geometry));
+            assets.materials.forEach(addmaterial);
+            assets.textures.forEach((texture) => disposables.add(texture));
+        });
+
+        let count = 0;
+        disposables.forEach((resource) => {
+            if (isCachedResource(resource)) return;
+            resource.dispose();
+            count += 1;
+        });
+        this.logger.debug("Disposed " + count + " GPU resources");
+    }
+
+    // Drops this Experience's cached frames and snapshots, for changes their
+    // keys can't see (an image redrawn without a texture update, a shader
+    // with its own clock...). Listen with frameCache.onInvalidate(this.key).
+    public invalidate() {
+        frameCache.invalidate(this.key);
+    }
+
+    // Live WebGL contexts, and what this Experience's context holds on the GPU
+    public debugreport() {
+        const info = this._renderer.info();
+        const report = {
+            contexts: contextPool.report(),
+            geometries: info.memory.geometries,
+            textures: info.memory.textures,
+            programs: info.programs?.length ?? 0,
+            calls: info.render.calls,
+            triangles: info.render.triangles,
+            wrappers: this.wrappers.size,
+            nodeTextures: this.nodeTextures.length,
+            effects: this.effects.list().length,
+        };
+        this.logger.info(
+            "WebGL contexts: " + report.contexts.length
+            + " (owners " + report.contexts.map((context) => context.owners).join(", ") + ")"
+            + ", geometries: " + report.geometries
+            + ", textures: " + report.textures
+            + ", programs: " + report.programs
+            + ", draw calls: " + report.calls
+        );
+        return { ...report, frameCache: frameCache.report(this.logger, this.key) };
     }
 
     public isLoading(){
         return this._loader.isLoading();
     }
 
-    public renderSilhouetteSnapshot(options: {
-        camera?: THREE.Camera,
-        root?: THREE.Object3D,
-        cacheKey?: string,
-        useCache?: boolean,
-        verbose?: boolean,
+    // Waits, without advancing the timeline, until every pending load has
+    // settled. Reports what is missing if that takes longer than `timeout` seconds.
+    *ready(timeout: number = this.loadTimeout) {
+        const idle: boolean = yield this._loader.whenIdle(timeout);
+        if (!idle) {
+            this.logger.error("Assets still loading after " + timeout + "s.\n" + this._loader.report());
+        } else if (this._loader.getFailures().length > 0) {
+            this.logger.warn("Some assets failed to load.\n" + this._loader.report());
+        }
+    }
+
+    public loadGLTF(path: string) {
+        return this._loader.loadGLTFAsync(path);
+    }
+
+    public loadTexture(path: string) {
+        return this._loader.loadTextureAsync(path);
+    }
+
+    public renderSilhouetteSnapshot(options: SnapshotOptions = {}): CachedFrame<HTMLCanvasElement> | undefined {
+        return this.renderSnapshot({ ...options, pass: 'silhouette' });
+    }
+
+    // Objects (or names) and everything below them
+    private snapshotSelection(root: THREE.Object3D, objects: MaskTarget[] = []) {
+        const selected = new Set<THREE.Object3D>();
+        objects.forEach((item) => {
+            const object = typeof item === 'string'
+                ? root.getObjectByName(item)
+                : item instanceof ObjectWrapper ? item.object : item;
+            if (!object) {
+                this.logger.warn("Snapshot object " + item + " not found, ignoring it.");
+                return;
+            }
+            object.traverse((child) => selected.add(child));
+        });
+        return selected;
+    }
+
+    // What a pixel of an 'id' snapshot shows: meshes by 0xRRGGBB colour
+    public idobjects(root: THREE.Object3D = this.selectedScene) {
+        return idObjects(root, this.logger);
+    }
+
+    // Live mask of the selected scene with the main renderer's context, for
+    // ThrashMask. Only valid until the next render, copy it right away.
+    public renderMask(size: Vector2, options: {
+        pass?: SnapshotPass,
+        objects?: MaskTarget[],
+        occlusion?: boolean,
+        near?: number,
+        far?: number,
+        // Pixels per unit of `size`, see pixelratio()
+        pixelRatio?: number,
+    } = {}) {
+        return this._renderer.renderSnapshot(this.selectedScene, this.selectedCamera, size, {
+            pixelRatio: options.pixelRatio,
+            samples: this.quality().samples,
+            pass: options.pass ?? 'silhouette',
+            selected: this.snapshotSelection(this.selectedScene, options.objects),
+            occlusion: options.occlusion,
+            near: options.near,
+            far: options.far,
+        });
+    }
+
+    // Renders the scene (or a subtree) once with replacement materials, for
+    // compositing 2D effects against it. See SnapshotPass for the outputs.
+    public renderSnapshot(options: SnapshotOptions & {
+        pass?: SnapshotPass,
+        // Objects (or names) that are white in the 'matte' pass
+        objects?: MaskTarget[],
+        // 'matte': the other meshes are drawn black, occluding the objects.
+        // False hides them instead (default true).
+        occlusion?: boolean,
+        // Depth range of the 'depth' pass, defaults to the camera's
+        near?: number,
+        far?: number,
     } = {}): CachedFrame<HTMLCanvasElement> | undefined {
+        const pass = options.pass ?? 'silhouette';
         const sourceCamera = options.camera ?? this.selectedCamera;
         const sourceRoot = options.root ?? this.selectedScene;
         const useCache = options.useCache ?? false;
@@ -254,101 +922,82 @@ export default class Experience extends Rect {
         };
 
         if (!sourceCamera || !sourceRoot) {
-            this.logger.warn?.("Unable to render silhouette snapshot without a camera and root object.");
+            this.logger.warn?.("Unable to render " + pass + " snapshot without a camera and root object.");
             return undefined;
         }
 
         const size = this.computedSize();
         if (size.x <= 0 || size.y <= 0) {
-            this.logger.warn?.("Computed size is zero; skipping silhouette snapshot render.");
+            this.logger.warn?.("Computed size is zero; skipping " + pass + " snapshot render.");
             return undefined;
         }
 
-        const cacheId = options.cacheKey ?? frameCache.createId("silhouette");
-        if (useCache) {
+        let scene = sourceRoot;
+        while (scene.parent) scene = scene.parent;
+
+        // Keyed by what the snapshot shows, like render on demand: after the
+        // scene changed (hot reload, reparenting, assets arriving) the same
+        // frame gets a new key. Stable across seeks and reloads otherwise.
+        // An explicit cacheKey is trusted as is.
+        const state = !useCache || options.cacheKey !== undefined ? [] : captureFrameState(scene as THREE.Scene, sourceCamera, [size.x, size.y, this.quality().samples]);
+        const cacheable = useCache && state !== null;
+        if (useCache && !cacheable) logMessage(`Scene opts out of caching (userData.alwaysRender), rendering ${pass} snapshot.`);
+        const cacheId = frameCache.key(options.cacheKey !== undefined
+            ? { namespace: this.key, hash: options.cacheKey }
+            : {
+                namespace: this.key,
+                scene: sourceRoot.name || sourceRoot.uuid,
+                hash: hashValues(state ?? []) + '/' + [pass, sourceCamera.uuid, sourceRoot.uuid, options.occlusion, options.near, options.far]
+                    .concat((options.objects ?? []).map((item) => typeof item === 'string' ? item : item instanceof ObjectWrapper ? item.object.uuid : item.uuid))
+                    .join('/'),
+            });
+        if (cacheable) {
             const cached = frameCache.get(cacheId);
             if (cached) {
-                logMessage(`Silhouette snapshot cache hit for id '${cacheId}'.`);
+                logMessage(`Snapshot cache hit for id '${cacheId}'.`);
                 return cached;
             }
-            logMessage(`No cache entry for id '${cacheId}'. Rendering new snapshot.`);
-        } else {
-            logMessage(`Rendering silhouette snapshot without using cache (id '${cacheId}').`);
-        }
-
-        const rootClone = sourceRoot.clone(true);
-        const sceneClone = rootClone instanceof THREE.Scene ? rootClone : new THREE.Scene();
-        if (!(rootClone instanceof THREE.Scene)) {
-            sceneClone.add(rootClone);
-        }
-
-        const disposableMaterials: THREE.Material[] = [];
-        sceneClone.traverse((child) => {
-            const mesh = child as THREE.Mesh;
-            if (!mesh.isMesh) return;
-
-            const originalMaterials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
-            const isTransparent = originalMaterials.some((mat) => {
-                const material = mat as THREE.Material;
-                return material.transparent || (material as any).opacity < 1;
-            });
-
-            const material = new THREE.MeshBasicMaterial({
-                color: isTransparent ? 0x808080 : 0xffffff,
-            });
-            disposableMaterials.push(material);
-            mesh.material = material;
-        });
-
-        const cameraClone = sourceCamera.clone() as THREE.Camera;
-        if ((cameraClone as THREE.PerspectiveCamera).isPerspectiveCamera) {
-            const perspective = cameraClone as THREE.PerspectiveCamera;
-            const aspect = size.x / size.y;
-            if (Number.isFinite(aspect)) {
-                perspective.aspect = aspect;
-                perspective.updateProjectionMatrix();
-            }
-        } else if ((cameraClone as THREE.OrthographicCamera).isOrthographicCamera) {
-            const ortho = cameraClone as THREE.OrthographicCamera;
-            // Maintain same size proportions by scaling frustum
-            const halfW = (ortho.right - ortho.left) / 2;
-            const halfH = (ortho.top - ortho.bottom) / 2;
-            const aspect = size.x / size.y;
-            if (Number.isFinite(aspect) && aspect > 0) {
-                const targetHalfW = halfH * aspect;
-                ortho.left = -targetHalfW;
-                ortho.right = targetHalfW;
-                ortho.updateProjectionMatrix();
-            }
+            logMessage(`No cache entry for id '${cacheId}'. Rendering new ${pass} snapshot.`);
+        } else if (!useCache) {
+            logMessage(`Rendering ${pass} snapshot without using cache (id '${cacheId}').`);
         }
 
-        sceneClone.background = null;
-
-        const renderer = new THREE.WebGLRenderer({ antialias: true, preserveDrawingBuffer: true });
-        renderer.setSize(size.x, size.y, false);
-        renderer.setPixelRatio(1);
-        renderer.setClearColor(0x000000, 0);
-        renderer.render(sceneClone, cameraClone);
-
         const output = document.createElement('canvas');
         output.width = size.x;
         output.height = size.y;
         const ctx = output.getContext('2d');
         if (ctx) {
-            ctx.drawImage(renderer.domElement, 0, 0);
+            // Drawn with the main renderer's context, copied before anything else renders
+            // A subtree is drawn in place, with the rest of its scene hidden
+            const include = new Set<THREE.Object3D>();
+            sourceRoot.traverse((child) => include.add(child));
+
+            const rendered = this._renderer.renderSnapshot(
+                scene as THREE.Scene,
+                sourceCamera,
+                size,
+                {
+                    pass,
+                    include: sourceRoot === scene ? undefined : include,
+                    selected: this.snapshotSelection(sourceRoot, options.objects),
+                    occlusion: options.occlusion,
+                    near: options.near,
+                    far: options.far,
+                    samples: this.quality().samples,
+                },
+            );
+            ctx.drawImage(rendered, 0, 0, size.x, size.y);
         }
 
-        renderer.dispose();
-        disposableMaterials.forEach((mat) => mat.dispose?.());
-
         const result: CachedFrame<HTMLCanvasElement> = {
             id: cacheId,
             payload: output,
             createdAt: Date.now(),
+            bytes: output.width * output.height * 4,
         };
 
-        if (useCache) {
-            logMessage(`Caching silhouette snapshot under id '${cacheId}'.`);
+        if (cacheable) {
+            logMessage(`Caching ${pass} snapshot under id '${cacheId}'.`);
             return frameCache.set(cacheId, output);
         }
 
@@ -0,0 +1,81 @@
+import { initial, Rect, RectProps, signal } from "@motion-canvas/2d";
+import { SignalValue, SimpleSignal } from "@motion-canvas/core";
+import Experience, { MaskTarget } from "./Experience";
+import { SnapshotPass } from "./utils/snapshots";
+
+export interface ThrashMaskProps extends RectProps {
+    experience: Experience
+    mode?: SignalValue<SnapshotPass>
+    // Objects that are white in the 'matte' mode
+    objects?: SignalValue<MaskTarget[]>
+    // 'matte' only: the other objects are drawn black and occlude the
+    // chosen ones; false hides them instead (default true)
+    occlusion?: SignalValue<boolean>
+    // 'depth' only: range mapped from white to black (defaults to the camera's)
+    near?: SignalValue<number>
+    far?: SignalValue<number>
+}
+
+/*
+    A live snapshot pass of an Experience, drawn again every frame with the
+    Experience's own renderer, so it stays in sync with 3D motion. Sized like
+    the Experience by default; use it with `composite`/`compositeOperation`:
+
+    <Node composite cache>
+        <ThrashMask experience={core} />
+        <Txt compositeOperation={'source-out'} ... />
+    </Node>
+*/
+export default class ThrashMask extends Rect {
+
+    @initial('silhouette')
+    @signal()
+    public declare readonly mode: SimpleSignal<SnapshotPass, this>;
+
+    @initial([])
+    @signal()
+    public declare readonly objects: SimpleSignal<MaskTarget[], this>;
+
+    @initial(true)
+    @signal()
+    public declare readonly occlusion: SimpleSignal<boolean, this>;
+
+    @initial(undefined)
+    @signal()
+    public declare readonly near: SimpleSignal<number | undefined, this>;
+
+    @initial(undefined)
+    @signal()
+    public declare readonly far: SimpleSignal<number | undefined, this>;
+
+    private experience: Experience;
+
+    constructor(props: ThrashMaskProps) {
+        super(props);
+        this.experience = props.experience;
+
+        // Line up with the Experience unless told otherwise
+        if (props.size === undefined && props.width === undefined && props.height === undefined) {
+            this.size(() => this.experience.size());
+        }
+    }
+
+    protected override draw(context: CanvasRenderingContext2D) {
+        const size = this.computedSize();
+        const { width, height } = size;
+
+        if (width > 0 && height > 0) {
+            const mask = this.experience.renderMask(size, {
+                pass: this.mode(),
+                objects: this.objects(),
+                occlusion: this.occlusion(),
+                near: this.near(),
+                far: this.far(),
+                pixelRatio: this.experience.pixelratio(context, size),
+            });
+            context.drawImage(mask, 0, 0, mask.width, mask.height, width / -2, height / -2, width, height);
+        }
+
+        super.draw(context);
+    }
+}
@@ -1,19 +1,56 @@
 import { GLTF, GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
 import Experience from "../Experience";
-import { Texture, TextureLoader } from "three";
+import { BufferGeometry, ImageLoader, Material, Mesh, Object3D, Texture, TextureLoader } from "three";
 import { HDRLoader } from "three/examples/jsm/loaders/HDRLoader";
 
 const CACHE_GLTF: { [name: string]: GLTF } = {};
 const CACHE_TEXTURE: { [name: string]: Texture } = {};
+const CACHE_IMAGE: { [name: string]: HTMLImageElement } = {};
+
+// Geometries, materials and textures held by the caches above. They are
+// shared by every Experience (models are cloned, not copied), so only the
+// caches own them: Experiences leave them alone when disposing their own.
+const CACHED_RESOURCES = new WeakSet<object>();
+
+function markcached(object: Object3D) {
+    object.traverse((child) => {
+        const holder = child as Mesh;
+        if (holder.geometry instanceof BufferGeometry) CACHED_RESOURCES.add(holder.geometry);
+        if (!holder.material) return;
+        (Array.isArray(holder.material) ? holder.material : [holder.material]).forEach((material: Material) => {
+            CACHED_RESOURCES.add(material);
+            Object.values(material).forEach((value) => {
+                if (value instanceof Texture) CACHED_RESOURCES.add(value);
+            });
+        });
+    });
+}
+
+export function isCachedResource(resource: object) {
+    return CACHED_RESOURCES.has(resource);
+}
+
+export interface LoadFailure {
+    path: string;
+    error: unknown;
+}
 
 export default class Loader {
 
     private master: Experience
     private toload: number = 0;
+    // Every load ever started, so waits can tell new loads from old ones
+    private started: number = 0;
+
+    // What is still in flight / what failed, for readable reports
+    private pending = new Map<string, number>();
+    private failures: LoadFailure[] = [];
+    private idleWaiters: (() => void)[] = [];
 
     private gltfLoader: GLTFLoader;
     private textureLoader: TextureLoader;
     private hdrLoader: HDRLoader;
+    private imageLoader: ImageLoader;
 
     constructor(experience: Experience) {
         this.master = experience;
@@ -25,68 +62,181 @@ export default class Loader {
         this.gltfLoader = new GLTFLoader();
         this.textureLoader = new TextureLoader();
         this.hdrLoader = new HDRLoader();
+        this.imageLoader = new ImageLoader();
     }
 
-    public loadGLTF(path: string, callback: (gltf: GLTF) => void) {
+    // Every request, cached or not, is counted from the call until its
+    // callback has run, so loads started inside callbacks keep us busy.
+    private begin(label: string) {
+        this.toload += 1;
+        this.started += 1;
+        this.pending.set(label, (this.pending.get(label) ?? 0) + 1);
+    }
+
+    private end(label: string) {
+        this.toload = Math.max(0, this.toload - 1);
+        const count = (this.pending.get(label) ?? 1) - 1;
+        if (count > 0) this.pending.set(label, count);
+        else this.pending.delete(label);
+
+        if (this.toload === 0) {
+            const waiters = this.idleWaiters;
+            this.idleWaiters = [];
+            waiters.forEach((resolve) => resolve());
+        }
+    }
+
+    private fail(label: string, kind: string, err: unknown, onError?: (err: unknown) => void) {
+        this.failures.push({ path: label, error: err });
+        this.master.logger.error("the " + kind + " at " + label + "couldn't be loaded. \n " + err);
+        onError?.(err);
+        this.end(label);
+    }
+
+    // Runs the callback for a cached entry on the next tick to mirror loader async behavior
+    private serveCached<T>(label: string, value: T, callback: (value: T) => void) {
+        this.begin(label);
+        setTimeout(() => {
+            try {
+                callback(value);
+            } finally {
+                this.end(label);
+            }
+        }, 0);
+    }
+
+    public loadGLTF(path: string, callback: (gltf: GLTF) => void, onError?: (err: unknown) => void) {
         // Serve from cache if available and keep async semantics
         const cached = CACHE_GLTF[path];
         if (cached) {
-            // Ensure callback runs on next tick to mirror loader async behavior
-            setTimeout(() => callback(cached), 0);
+            this.serveCached(path, cached, callback);
             return;
         }
 
-        this.toload += 1;
+        this.begin(path);
 
         this.gltfLoader.load(path,
             (data: GLTF) => {
                 // loaded
                 CACHE_GLTF[path] = data;
-                this.toload -= 1;
-                callback(data);
+                markcached(data.scene);
+                try {
+                    callback(data);
+                } finally {
+                    this.end(path);
+                }
                 this.master.logger.debug("loaded gltf : \n" + path);
             },
             (progress) => {
                 this.master.logger.debug("loading gltf ... \n" + path);
             },
-            (err) => {
-                this.toload = Math.max(0, this.toload - 1);
-                this.master.logger.error("the gltf at " + path + "couldn't be loaded. \n " + err);
-            }
+            (err) => this.fail(path, "gltf", err, onError)
         )
 
     }
 
-    public loadTexture(path: string, callback: (texture: Texture) => void) {
+    public loadTexture(path: string, callback: (texture: Texture) => void, onError?: (err: unknown) => void) {
 
         // Serve from cache if available and keep async semantics
         const cached = CACHE_TEXTURE[path];
         if (cached) {
-            // Ensure callback runs on next tick to mirror loader async behavior
-            setTimeout(() => callback(cached), 0);
+            this.serveCached(path, cached, callback);
             return;
         }
 
-        this.toload += 1;
+        this.begin(path);
 
         let loader = this.textureLoader;
         if (path.endsWith(".hdr")){
             loader = this.hdrLoader;
         }
-        
+
         loader.load(path, (texture => {
             CACHE_TEXTURE[path] = texture;
-            this.toload -= 1;
-            callback(texture);
+            CACHED_RESOURCES.add(texture);
+            try {
+                callback(texture);
+            } finally {
+                this.end(path);
+            }
             this.master.logger.debug("loaded texture : \n" + path);
         }), (progress => {
             this.master.logger.debug("loading texture ... \n" + path);
 
-        }), (err) => {
-            this.toload = Math.max(0, this.toload - 1);
-            this.master.logger.error("the texture at " + path + "couldn't be loaded. \n " + err);
+        }), (err) => this.fail(path, "texture", err, onError))
+    }
+
+    public loadImage(path: string, callback: (image: HTMLImageElement) => void, onError?: (err: unknown) => void) {
+        // Embedded data URLs are decoded in place but never cached,
+        // the key would be the whole payload
+        const embedded = path.startsWith("data:");
+        const label = embedded ? "(embedded image)" : path;
+
+        // Serve from cache if available and keep async semantics
+        const cached = CACHE_IMAGE[path];
+        if (cached) {
+            this.serveCached(label, cached, callback);
+            return;
+        }
+
+        this.begin(label);
+
+        this.imageLoader.load(path, (image => {
+            if (!embedded) CACHE_IMAGE[path] = image;
+            try {
+                callback(image);
+            } finally {
+                this.end(label);
+            }
+            this.master.logger.debug("loaded image : \n" + label);
+        }), undefined, (err) => this.fail(label, "image", err, onError))
+    }
 
-        })
+    public loadGLTFAsync(path: string): Promise<GLTF> {
+        return new Promise((resolve, reject) => this.loadGLTF(path, resolve, reject));
+    }
+
+    public loadTextureAsync(path: string): Promise<Texture> {
+        return new Promise((resolve, reject) => this.loadTexture(path, resolve, reject));
+    }
+
+    public loadImageAsync(path: string): Promise<HTMLImageElement> {
+        return new Promise((resolve, reject) => this.loadImage(path, resolve, reject));
+    }
+
+    // Resolves true once nothing is pending, or false after `timeout` seconds
+    public whenIdle(timeout: number = 30): Promise<boolean> {
+        if (this.toload === 0) return Promise.resolve(true);
+
+        return new Promise((resolve) => {
+            const done = () => {
+                clearTimeout(timer);
+                resolve(true);
+            };
+            const timer = setTimeout(() => {
+                this.idleWaiters = this.idleWaiters.filter((waiter) => waiter !== done);
+                resolve(false);
+            }, timeout * 1000);
+            this.idleWaiters.push(done);
+        });
+    }
+
+    public getStartedCount() { return this.started }
+
+    public getFailures(): LoadFailure[] { return [...this.failures] }
+
+    // Human readable summary of what is still loading and what failed
+    public report() {
+        const lines: string[] = [];
+        if (this.pending.size > 0) {
+            lines.push("still loading:");
+            this.pending.forEach((count, label) => lines.push("  " + label + (count > 1 ? " (x" + count + ")" : "")));
+        }
+        if (this.failures.length > 0) {
+            lines.push("failed:");
+            this.failures.forEach(({ path, error }) => lines.push("  " + path + " : " + error));
+        }
+        return lines.length > 0 ? lines.join("\n") : "all assets loaded";
     }
 
     public isLoading() { return this.toload > 0 }
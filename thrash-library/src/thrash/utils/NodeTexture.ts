@@ -0,0 +1,75 @@
+import { Node } from "@motion-canvas/2d";
+import { createComputed } from "@motion-canvas/core";
+import { CanvasTexture, SRGBColorSpace } from "three";
+
+export interface NodeTextureOptions {
+    // Canvas size in pixels, a single number makes it square
+    resolution?: number | [number, number];
+    // Scale the node to fit the canvas (default), or draw it at 1 unit = 1 pixel
+    fit?: boolean;
+    // Fill behind the node, transparent by default
+    background?: string;
+}
+
+// Draws a Motion Canvas node into a canvas used as a THREE texture.
+// The drawing runs in a computed, so it only happens again when a signal
+// the node reads while rendering has changed.
+export default class NodeTexture {
+
+    public readonly canvas: HTMLCanvasElement;
+    public readonly texture: CanvasTexture;
+
+    private readonly context: CanvasRenderingContext2D;
+    private readonly draw: () => number;
+    private version = 0;
+
+    constructor(node: Node | (() => Node), options: NodeTextureOptions = {}) {
+        const resolution = options.resolution ?? 1024;
+        const [width, height] = typeof resolution === 'number' ? [resolution, resolution] : resolution;
+
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = width;
+        this.canvas.height = height;
+        this.context = this.canvas.getContext('2d');
+
+        this.texture = new CanvasTexture(this.canvas);
+        this.texture.colorSpace = SRGBColorSpace;
+
+        this.draw = createComputed(() => {
+            // Refs may only be filled once the node has been created
+            const target = typeof node === 'function' ? node() : node;
+            if (!target) return this.version;
+
+            const context = this.context;
+            context.setTransform(1, 0, 0, 1, 0, 0);
+            context.clearRect(0, 0, width, height);
+            if (options.background) {
+                context.fillStyle = options.background;
+                context.fillRect(0, 0, width, height);
+            }
+
+            // Center the node's box (in its parent's space, since render()
+            // applies the node's own transform) on the canvas
+            const box = target.cacheBBox().transform(target.localToParent());
+            const scale = (options.fit ?? true) && box.width > 0 && box.height > 0
+                ? Math.min(width / box.width, height / box.height)
+                : 1;
+            context.translate(width / 2, height / 2);
+            context.scale(scale, scale);
+            context.translate(-box.center.x, -box.center.y);
+            target.render(context);
+
+            this.texture.needsUpdate = true;
+            return ++this.version;
+        });
+    }
+
+    // Redraws if anything the node depends on changed since the last call
+    update() {
+        this.draw();
+    }
+
+    dispose() {
+        this.texture.dispose();
+    }
+}
@@ -0,0 +1,478 @@
+import { createSignal, SimpleSignal } from "@motion-canvas/core";
+import {
+    Camera,
+    Color,
+    ColorRepresentation,
+    Data3DTexture,
+    DataTexture,
+    IUniform,
+    Object3D,
+    Scene,
+    Texture,
+    Vector2,
+    WebGLRenderer,
+} from "three";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { Pass } from "three/examples/jsm/postprocessing/Pass.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { TexturePass } from "three/examples/jsm/postprocessing/TexturePass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js";
+import { OutlinePass } from "three/examples/jsm/postprocessing/OutlinePass.js";
+import { FXAAPass } from "three/examples/jsm/postprocessing/FXAAPass.js";
+import { SMAAPass } from "three/examples/jsm/postprocessing/SMAAPass.js";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass.js";
+import { BokehPass } from "three/examples/jsm/postprocessing/BokehPass.js";
+import { LUTPass } from "three/examples/jsm/postprocessing/LUTPass.js";
+import { VignetteShader } from "three/examples/jsm/shaders/VignetteShader.js";
+import { ColorSignal, createColorSignal } from "./signals";
+import ObjectWrapper from "../wrappers/ObjectWrapper";
+
+// What an effect gets to see every frame
+export interface EffectFrame {
+    scene: Scene;
+    camera: Camera;
+    // In pixels
+    size: Vector2;
+}
+
+// One step of the post-processing chain. Parameters are signals, so they
+// can be tweened like any other property; they are read once per frame.
+export abstract class PostEffect {
+
+    public readonly enabled: SimpleSignal<boolean, this>;
+
+    // HDR effects run on the linear scene, display effects (anti-aliasing,
+    // grading...) after tone mapping and colour space conversion
+    public readonly stage: 'hdr' | 'display' = 'hdr';
+
+    protected pass?: Pass;
+
+    constructor() {
+        this.enabled = createSignal(true, undefined, this);
+    }
+
+    protected abstract create(frame: EffectFrame): Pass;
+
+    // Copies the signal values into the pass
+    protected update(frame: EffectFrame) { }
+
+    // Pass for this effect, created the first time the chain needs it
+    getPass(frame: EffectFrame) {
+        return this.pass ??= this.create(frame);
+    }
+
+    apply(frame: EffectFrame) {
+        this.pass.enabled = this.enabled();
+        if (this.pass.enabled) this.update(frame);
+    }
+
+    dispose() {
+        this.pass?.dispose();
+        this.pass = undefined;
+    }
+}
+
+export interface BloomProps { strength?: number, radius?: number, threshold?: number }
+
+export class BloomEffect extends PostEffect {
+
+    public readonly strength: SimpleSignal<number, this>;
+    public readonly radius: SimpleSignal<number, this>;
+    public readonly threshold: SimpleSignal<number, this>;
+
+    constructor(props: BloomProps = {}) {
+        super();
+        this.strength = createSignal(props.strength ?? 1, undefined, this);
+        this.radius = createSignal(props.radius ?? 0.4, undefined, this);
+        this.threshold = createSignal(props.threshold ?? 0.85, undefined, this);
+    }
+
+    protected create(frame: EffectFrame) {
+        return new UnrealBloomPass(frame.size.clone(), this.strength(), this.radius(), this.threshold());
+    }
+
+    protected override update() {
+        const pass = this.pass as UnrealBloomPass;
+        pass.strength = this.strength();
+        pass.radius = this.radius();
+        pass.threshold = this.threshold();
+    }
+}
+
+export interface OutlineProps {
+    strength?: number,
+    thickness?: number,
+    glow?: number,
+    color?: ColorRepresentation,
+    hiddenColor?: ColorRepresentation,
+}
+
+// Outlines the selected objects of whatever scene is being rendered
+export class OutlineEffect extends PostEffect {
+
+    public readonly strength: SimpleSignal<number, this>;
+    public readonly thickness: SimpleSignal<number, this>;
+    public readonly glow: SimpleSignal<number, this>;
+    public readonly color: ColorSignal<this>;
+    public readonly hiddenColor: ColorSignal<this>;
+
+    private selection: Object3D[] = [];
+
+    constructor(objects: (Object3D | ObjectWrapper<Object3D>)[] = [], props: OutlineProps = {}) {
+        super();
+        this.strength = createSignal(props.strength ?? 3, undefined, this);
+        this.thickness = createSignal(props.thickness ?? 1, undefined, this);
+        this.glow = createSignal(props.glow ?? 0, undefined, this);
+        this.color = createColorSignal(props.color ?? 0xffffff, this);
+        this.hiddenColor = createColorSignal(props.hiddenColor ?? 0x190a05, this);
+        this.select(...objects);
+    }
+
+    // Replaces the outlined objects
+    select(...objects: (Object3D | ObjectWrapper<Object3D>)[]) {
+        this.selection = objects.map((object) => object instanceof ObjectWrapper ? object.object : object);
+        return this;
+    }
+
+    selectionget() { return [...this.selection]; }
+
+    protected create(frame: EffectFrame) {
+        return new OutlinePass(frame.size.clone(), frame.scene, frame.camera);
+    }
+
+    protected override update(frame: EffectFrame) {
+        const pass = this.pass as OutlinePass;
+        pass.renderScene = frame.scene;
+        pass.renderCamera = frame.camera;
+        pass.selectedObjects = this.selection;
+        pass.edgeStrength = this.strength();
+        pass.edgeThickness = this.thickness();
+        pass.edgeGlow = this.glow();
+        pass.visibleEdgeColor.copy(this.color());
+        pass.hiddenEdgeColor.copy(this.hiddenColor());
+    }
+}
+
+export class AntialiasEffect extends PostEffect {
+
+    public override readonly stage = 'display';
+
+    constructor(public readonly mode: 'fxaa' | 'smaa' = 'fxaa') {
+        super();
+    }
+
+    protected create() {
+        return this.mode === 'smaa' ? new SMAAPass() : new FXAAPass();
+    }
+}
+
+export interface VignetteProps { offset?: number, darkness?: number }
+
+export class VignetteEffect extends PostEffect {
+
+    public override readonly stage = 'display';
+
+    public readonly offset: SimpleSignal<number, this>;
+    public readonly darkness: SimpleSignal<number, this>;
+
+    constructor(props: VignetteProps = {}) {
+        super();
+        this.offset = createSignal(props.offset ?? 1, undefined, this);
+        this.darkness = createSignal(props.darkness ?? 1, undefined, this);
+    }
+
+    protected create() {
+        return new ShaderPass(VignetteShader);
+    }
+
+    protected override update() {
+        const uniforms = (this.pass as ShaderPass).uniforms;
+        uniforms.offset.value = this.offset();
+        uniforms.darkness.value = this.darkness();
+    }
+}
+
+export interface DepthOfFieldProps { focus?: number, aperture?: number, maxblur?: number }
+
+export class DepthOfFieldEffect extends PostEffect {
+
+    // Distance from the camera that stays sharp, in world units
+    public readonly focus: SimpleSignal<number, this>;
+    public readonly aperture: SimpleSignal<number, this>;
+    public readonly maxblur: SimpleSignal<number, this>;
+
+    constructor(props: DepthOfFieldProps = {}) {
+        super();
+        this.focus = createSignal(props.focus ?? 10, undefined, this);
+        this.aperture = createSignal(props.aperture ?? 0.025, undefined, this);
+        this.maxblur = createSignal(props.maxblur ?? 0.01, undefined, this);
+    }
+
+    protected create(frame: EffectFrame) {
+        return new BokehPass(frame.scene, frame.camera, {});
+    }
+
+    protected override update(frame: EffectFrame) {
+        const pass = this.pass as BokehPass;
+        pass.scene = frame.scene;
+        pass.camera = frame.camera;
+        const uniforms = pass.uniforms as { [name: string]: IUniform<number> };
+        uniforms.focus.value = this.focus();
+        uniforms.aperture.value = this.aperture();
+        uniforms.maxblur.value = this.maxblur();
+        uniforms.aspect.value = frame.size.x / frame.size.y;
+    }
+}
+
+// 3D lookup table grade. Load the table with LUTCubeLoader / LUT3dlLoader
+// and pass its `texture3D`.
+export class LUTEffect extends PostEffect {
+
+    public override readonly stage = 'display';
+
+    public readonly intensity: SimpleSignal<number, this>;
+
+    constructor(public lut: DataTexture | Data3DTexture, intensity: number = 1) {
+        super();
+        this.intensity = createSignal(intensity, undefined, this);
+    }
+
+    protected create() {
+        return new LUTPass({ lut: this.lut, intensity: this.intensity() });
+    }
+
+    protected override update() {
+        const pass = this.pass as LUTPass;
+        pass.lut = this.lut;
+        pass.intensity = this.intensity();
+    }
+}
+
+export interface ColorGradeProps {
+    brightness?: number,
+    contrast?: number,
+    saturation?: number,
+    tint?: ColorRepresentation,
+}
+
+const ColorGradeShader = {
+    name: 'ColorGradeShader',
+    uniforms: {
+        tDiffuse: { value: null as Texture | null },
+        brightness: { value: 0 },
+        contrast: { value: 1 },
+        saturation: { value: 1 },
+        tint: { value: null as Color | null },
+    },
+    vertexShader: /* glsl */ `
+        varying vec2 vUv;
+        void main() {
+            vUv = uv;
+            gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }
+    `,
+    fragmentShader: /* glsl */ `
+        uniform sampler2D tDiffuse;
+        uniform float brightness;
+        uniform float contrast;
+        uniform float saturation;
+        uniform vec3 tint;
+        varying vec2 vUv;
+
+        void main() {
+            vec4 color = texture2D(tDiffuse, vUv);
+            vec3 c = color.rgb * tint + brightness;
+            c = (c - 0.5) * contrast + 0.5;
+            float luma = dot(c, vec3(0.2126, 0.7152, 0.0722));
+            c = mix(vec3(luma), c, saturation);
+            gl_FragColor = vec4(clamp(c, 0.0, 1.0), color.a);
+        }
+    `,
+};
+
+// Simple display-space grade: brightness, contrast, saturation and tint
+export class ColorGradeEffect extends PostEffect {
+
+    public override readonly stage = 'display';
+
+    public readonly brightness: SimpleSignal<number, this>;
+    public readonly contrast: SimpleSignal<number, this>;
+    public readonly saturation: SimpleSignal<number, this>;
+    public readonly tint: ColorSignal<this>;
+
+    constructor(props: ColorGradeProps = {}) {
+        super();
+        this.brightness = createSignal(props.brightness ?? 0, undefined, this);
+        this.contrast = createSignal(props.contrast ?? 1, undefined, this);
+        this.saturation = createSignal(props.saturation ?? 1, undefined, this);
+        this.tint = createColorSignal(props.tint ?? 0xffffff, this);
+    }
+
+    protected create() {
+        return new ShaderPass(ColorGradeShader);
+    }
+
+    protected override update() {
+        const uniforms = (this.pass as ShaderPass).uniforms;
+        uniforms.brightness.value = this.brightness();
+        uniforms.contrast.value = this.contrast();
+        uniforms.saturation.value = this.saturation();
+        uniforms.tint.value = this.tint();
+    }
+}
+
+export interface ShaderDefinition {
+    uniforms: { [name: string]: IUniform<unknown> };
+    vertexShader: string;
+    fragmentShader: string;
+}
+
+// Custom full screen shader. It reads the previous step from `tDiffuse`;
+// numeric uniforms get a signal each, see uniform().
+export class ShaderEffect extends PostEffect {
+
+    public override readonly stage: 'hdr' | 'display';
+
+    private readonly signals = new Map<string, SimpleSignal<number, this>>();
+
+    constructor(public readonly shader: ShaderDefinition, stage: 'hdr' | 'display' = 'display') {
+        super();
+        this.stage = stage;
+        Object.entries(shader.uniforms).forEach(([name, uniform]) => {
+            if (typeof uniform.value === 'number') {
+                this.signals.set(name, createSignal(uniform.value, undefined, this));
+            }
+        });
+    }
+
+    // Signal driving a numeric uniform
+    uniform(name: string) {
+        const signal = this.signals.get(name);
+        if (!signal) throw new Error("Shader has no numeric uniform called " + name);
+        return signal;
+    }
+
+    protected create() {
+        return new ShaderPass(this.shader);
+    }
+
+    protected override update(frame: EffectFrame) {
+        const uniforms = (this.pass as ShaderPass).uniforms;
+        this.signals.forEach((signal, name) => { uniforms[name].value = signal(); });
+        if (uniforms.resolution) uniforms.resolution.value = frame.size;
+    }
+}
+
+// Ordered list of effects rendered through an EffectComposer.
+// HDR effects run first, then tone mapping (OutputPass), then display effects.
+export default class EffectChain {
+
+    private effects: PostEffect[] = [];
+
+    private composer?: EffectComposer;
+    private renderPass?: RenderPass;
+    private inputPass?: TexturePass;
+    private outputPass?: OutputPass;
+    private dirty = true;
+
+    add<E extends PostEffect>(effect: E) {
+        this.effects.push(effect);
+        this.dirty = true;
+        return effect;
+    }
+
+    remove(effect: PostEffect) {
+        this.effects = this.effects.filter((item) => item !== effect);
+        effect.dispose();
+        this.dirty = true;
+    }
+
+    clear() {
+        this.effects.forEach((effect) => effect.dispose());
+        this.effects = [];
+        this.dirty = true;
+    }
+
+    list() { return [...this.effects]; }
+
+    bloom(props?: BloomProps) { return this.add(new BloomEffect(props)); }
+    outline(objects?: (Object3D | ObjectWrapper<Object3D>)[], props?: OutlineProps) { return this.add(new OutlineEffect(objects, props)); }
+    antialias(mode?: 'fxaa' | 'smaa') { return this.add(new AntialiasEffect(mode)); }
+    vignette(props?: VignetteProps) { return this.add(new VignetteEffect(props)); }
+    depthoffield(props?: DepthOfFieldProps) { return this.add(new DepthOfFieldEffect(props)); }
+    lut(lut: DataTexture | Data3DTexture, intensity?: number) { return this.add(new LUTEffect(lut, intensity)); }
+    colorgrade(props?: ColorGradeProps) { return this.add(new ColorGradeEffect(props)); }
+    shader(shader: ShaderDefinition, stage?: 'hdr' | 'display') { return this.add(new ShaderEffect(shader, stage)); }
+
+    // Whether rendering has to go through the chain at all
+    active() {
+        return this.effects.some((effect) => effect.enabled());
+    }
+
+    private rebuild(webgl: WebGLRenderer, frame: EffectFrame) {
+        if (!this.composer) {
+            this.composer = new EffectComposer(webgl);
+            this.renderPass = new RenderPass(frame.scene, frame.camera);
+            this.inputPass = new TexturePass();
+            this.outputPass = new OutputPass();
+        }
+
+        const composer = this.composer;
+        [...composer.passes].forEach((pass) => composer.removePass(pass));
+
+        composer.addPass(this.renderPass);
+        composer.addPass(this.inputPass);
+        this.effects.filter((effect) => effect.stage === 'hdr').forEach((effect) => composer.addPass(effect.getPass(frame)));
+        composer.addPass(this.outputPass);
+        this.effects.filter((effect) => effect.stage === 'display').forEach((effect) => composer.addPass(effect.getPass(frame)));
+
+        this.dirty = false;
+    }
+
+    // Renders a scene (or an already rendered linear image, e.g. a scene
+    // transition) through the effects to the canvas. `size` is in units of
+    // the renderer's pixel ratio, `samples` multisamples the scene render.
+    render(webgl: WebGLRenderer, scene: Scene, camera: Camera, size: { x: number, y: number }, input?: Texture, samples: number = 0) {
+        const pixelRatio = webgl.getPixelRatio();
+        const pixels = new Vector2(Math.floor(size.x * pixelRatio), Math.floor(size.y * pixelRatio));
+        const frame: EffectFrame = { scene, camera, size: pixels };
+        if (this.dirty || !this.composer) this.rebuild(webgl, frame);
+
+        const composer = this.composer;
+        if (composer.renderTarget1.samples !== samples) {
+            // Allocated again with the new sample count on next use
+            [composer.renderTarget1, composer.renderTarget2].forEach((target) => {
+                target.samples = samples;
+                target.dispose();
+            });
+        }
+        const width = composer.renderTarget1.width;
+        const height = composer.renderTarget1.height;
+        // The composer doesn't round its targets' sizes
+        if (width !== size.x * pixelRatio || height !== size.y * pixelRatio) {
+            composer.setPixelRatio(pixelRatio);
+            composer.setSize(size.x, size.y);
+        }
+
+        this.renderPass.enabled = !input;
+        this.renderPass.scene = scene;
+        this.renderPass.camera = camera;
+        this.inputPass.enabled = !!input;
+        this.inputPass.map = input;
+
+        this.effects.forEach((effect) => effect.apply(frame));
+
+        // Parameters come from the timeline, never from the wall clock
+        composer.render(0);
+    }
+
+    dispose() {
+        this.clear();
+        this.composer?.dispose();
+        this.renderPass?.dispose();
+        this.inputPass?.dispose();
+        this.outputPass?.dispose();
+        this.composer = undefined;
+    }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Vector2 } from '@motion-canvas/core';
+import { BoxGeometry, BufferGeometry, Color, Line, LineBasicMaterial, Mesh, MeshBasicMaterial, Object3D, PerspectiveCamera, Points, PointsMaterial, Scene, Sprite, SpriteMaterial } from 'three';
+import Experience from '../Experience';
+import Renderer from './Renderer';
+
+// Records what each render would draw, in place of a WebGL context
+const drawn: Object3D[][] = [];
+vi.mock('./contextPool', () => ({
+    contextPool: {
+        acquire: () => ({
+            domElement: document.createElement('canvas'),
+            getSize: (target: { set: (x: number, y: number) => void }) => target.set(0, 0),
+            getPixelRatio: () => 1,
+            setPixelRatio: () => { },
+            setSize: () => { },
+            getClearColor: (target: Color) => target,
+            getClearAlpha: () => 0,
+            setClearColor: () => { },
+            setRenderTarget: () => { },
+            render: (scene: Object3D) => {
+                const visible: Object3D[] = [];
+                scene.traverseVisible((child) => visible.push(child));
+                drawn.push(visible);
+            },
+        }),
+    },
+}));
+
+describe('Renderer.renderSnapshot', () => {
+    it('leaves sprites, lines and points out of the passes', () => {
+        const renderer = new Renderer({} as Experience);
+        const scene = new Scene();
+        const mesh = new Mesh(new BoxGeometry(), new MeshBasicMaterial());
+        const sprite = new Sprite(new SpriteMaterial());
+        const line = new Line(new BufferGeometry(), new LineBasicMaterial());
+        const points = new Points(new BufferGeometry(), new PointsMaterial());
+        scene.add(mesh, sprite, line, points);
+
+        renderer.renderSnapshot(scene, new PerspectiveCamera(), new Vector2(64, 64), { pass: 'id' });
+        expect(drawn.pop()).toEqual([scene, mesh]);
+
+        // Restored afterwards, like the mesh materials
+        expect([sprite.visible, line.visible, points.visible]).toEqual([true, true, true]);
+        expect(mesh.material).toBeInstanceOf(MeshBasicMaterial);
+    });
+});
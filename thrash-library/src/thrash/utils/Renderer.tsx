@@ -1,51 +1,401 @@
 import { Vector2 } from "@motion-canvas/core";
 import { Vector2 as ThreeVec2 } from "three";
 import Experience from "../Experience";
-import { PerspectiveCamera, WebGLRenderer } from "three";
+import { Camera, Color, HalfFloatType, Line, LinearSRGBColorSpace, Material, Mesh, MeshBasicMaterial, NoToneMapping, Object3D, OrthographicCamera, PerspectiveCamera, Points, Scene, ShaderMaterial, Sprite, WebGLRenderer, WebGLRenderTarget } from "three";
+import { FullScreenQuad } from "three/examples/jsm/postprocessing/Pass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { applyTransitionUniforms, createTransitionMaterial, SceneTransitionState } from "./SceneTransition";
+import { createSnapshotMaterial, silhouetteColor, SnapshotPass } from "./snapshots";
+import { contextPool } from "./contextPool";
+import { frameCache } from "./frameCache";
+import { captureFrameState } from "./frameState";
 
+export interface SnapshotRenderOptions {
+    pass: SnapshotPass;
+    // Objects (with their descendants) that count as selected for 'matte'
+    selected?: Set<Object3D>;
+    // 'matte': unselected meshes are drawn black and occlude the selected
+    // ones, unless this is false, which hides them (default true)
+    occlusion?: boolean;
+    // Only draw these meshes (a subtree), everything when unset
+    include?: Set<Object3D>;
+    near?: number;
+    far?: number;
+    // Pixels per unit of `size` (default 1)
+    pixelRatio?: number;
+    // MSAA samples of the 'silhouette' and 'matte' passes. Data passes are
+    // never multisampled, blended edges would read as other values.
+    samples?: number;
+}
+
+// Cache key of the frame each Experience (by node key) keeps for render on
+// demand. Outlives the Renderer, which is recreated on every seek.
+const keptFrames = new Map<string, string>();
 
 export default class Renderer {
 
     private master: Experience;
-    private readonly webgl = new WebGLRenderer();
+    // Borrowed from the context pool and possibly shared with other
+    // Experiences, so every render sets the state it relies on
+    private readonly webgl: WebGLRenderer;
+
+    // Created on the first scene transition, reused afterwards
+    private transitionTargets?: [WebGLRenderTarget, WebGLRenderTarget];
+    // Mixed transition, fed to the effect chain instead of the canvas
+    private transitionOutput?: WebGLRenderTarget;
+    private transitionMaterial?: ShaderMaterial;
+    private transitionQuad?: FullScreenQuad;
+
+    // Copy of the last frame, see storeframe()
+    private frame?: HTMLCanvasElement;
+
+    // Replacement materials of the snapshot passes, per mesh and variant.
+    // Entries of meshes taken out of their scene are dropped on the next snapshot.
+    private snapshotMaterials = new Map<Mesh, Map<string, Material>>();
+    // Multisampled snapshots are drawn here, then copied to the canvas
+    private snapshotTarget?: WebGLRenderTarget;
+    private snapshotOutput?: OutputPass;
 
     constructor(experience: Experience) {
         this.master = experience;
-        // Enable shadows for lights that castShadow
-        this.webgl.shadowMap.enabled = true;
+        this.webgl = contextPool.acquire(this);
+    }
+
+    // Render on demand: a copy of the frame just rendered is kept in the
+    // frame cache under the hash of its state, so the next frames reuse it
+    // while nothing changes. One frame per Experience, drawn into the same
+    // canvas each time; a copy, since the shared context's canvas gets
+    // overwritten.
+    private storeframe(key: string) {
+        const namespace = this.master.key;
+        const previous = keptFrames.get(namespace);
+        if (previous !== undefined && previous !== key) frameCache.delete(previous);
+        keptFrames.set(namespace, key);
+
+        const source = this.webgl.domElement;
+        const canvas = this.frame ??= document.createElement('canvas');
+        if (canvas.width !== source.width || canvas.height !== source.height) {
+            canvas.width = source.width;
+            canvas.height = source.height;
+        }
+        const context = canvas.getContext('2d');
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(source, 0, 0);
+        frameCache.set(key, canvas);
+        return canvas;
+    }
+
+    // GPU memory and draw calls of the context this renderer uses
+    public info() {
+        return this.webgl.info;
+    }
+
+    // Push the Experience's project settings into the WebGL renderer
+    private applySettings(scenes: Scene[]) {
+        const shadows = this.master.shadows();
+        const shadowType = this.master.shadowType();
+        const shadowMap = this.webgl.shadowMap;
+
+        if (shadowMap.enabled !== shadows || shadowMap.type !== shadowType) {
+            shadowMap.enabled = shadows;
+            shadowMap.type = shadowType;
+            // Shadow settings are baked into the compiled programs
+            scenes.forEach((scene) => scene.traverse((child) => {
+                const mesh = child as Mesh;
+                if (!mesh.isMesh) return;
+                const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+                materials.forEach((material: Material) => { material.needsUpdate = true; });
+            }));
+        }
+
+        this.webgl.toneMapping = this.master.toneMapping();
+        this.webgl.toneMappingExposure = this.master.toneMappingExposure();
     }
 
-    public render(size: Vector2) {
+    // Keep camera projection in sync with current viewport
+    public syncAspect(camera: Camera, size: Vector2) {
+        if (camera instanceof PerspectiveCamera) {
+            const nextAspect = size.x / size.y;
+            if (camera.aspect !== nextAspect) {
+                camera.aspect = nextAspect;
+                camera.updateProjectionMatrix();
+            }
+        } else if (camera instanceof OrthographicCamera) {
+            // Keep the vertical extent, widen or narrow the frustum around its center
+            const halfH = (camera.top - camera.bottom) / 2;
+            const centerX = (camera.left + camera.right) / 2;
+            const halfW = halfH * size.x / size.y;
+            if (camera.right - centerX !== halfW) {
+                camera.left = centerX - halfW;
+                camera.right = centerX + halfW;
+                camera.updateProjectionMatrix();
+            }
+        }
+    }
+
+    // Canvas of `size` units with `pixelRatio` pixels per unit
+    private resize(size: Vector2, pixelRatio: number) {
+        const webgl_size = new ThreeVec2();
+        this.webgl.getSize(webgl_size);
+
+        if (webgl_size.x != size.x || webgl_size.y != size.y || this.webgl.getPixelRatio() != pixelRatio) {
+            this.webgl.setPixelRatio(pixelRatio);
+            this.webgl.setSize(size.x, size.y, false);
+        }
+    }
+
+    // Renders the selected scene into a canvas of `size` units times
+    // `pixelRatio`, with `samples` MSAA samples (0 for none)
+    public render(size: Vector2, pixelRatio: number = 1, samples: number = 0) {
         const scene = this.master.selectedScene;
         const camera = this.master.selectedCamera;
         if (!camera || !scene) return;
 
-        const pixelRatio = 1;
-
         if (size.x > 0 && size.y > 0) {
-            // Keep camera projection in sync with current viewport
-            if (camera instanceof PerspectiveCamera) {
-                const nextAspect = size.x / size.y;
-                if (camera.aspect !== nextAspect) {
-                    camera.aspect = nextAspect;
-                    camera.updateProjectionMatrix();
+            this.syncAspect(camera, size);
+            this.resize(size, pixelRatio);
+            const pixels = new ThreeVec2(Math.floor(size.x * pixelRatio), Math.floor(size.y * pixelRatio));
+
+            // The scenes clear to opaque black, whatever another owner left
+            this.webgl.setClearColor(0x000000, 1);
+            this.webgl.setRenderTarget(null);
+
+            const transition = this.master.transition;
+            const effects = this.master.effects;
+            const effected = effects.active();
+            // Multisampling needs an off-screen target, which the chain has
+            const postprocess = effected || samples > 0;
+
+            // Transitions and effects animate on their own, they always render
+            let key: string | undefined;
+            if (this.master.renderOnDemand() && !transition && !effected) {
+                const state = captureFrameState(scene, camera, [
+                    size.x, size.y, pixelRatio, samples,
+                    this.master.shadows() ? 1 : 0, this.master.shadowType(),
+                    this.master.toneMapping(), this.master.toneMappingExposure(),
+                ]);
+                if (state) {
+                    key = frameCache.key({ namespace: this.master.key, scene: scene.name, hash: state });
+                    const cached = frameCache.get(key);
+                    if (cached) return cached.payload;
+                }
+            }
+            if (transition) {
+                this.syncAspect(transition.from.camera, size);
+                this.applySettings([transition.from.scene, scene]);
+                if (effected) {
+                    // Effects apply to the mixed image, as if it were one scene
+                    this.transitionOutput ??= new WebGLRenderTarget(pixels.x, pixels.y, { type: HalfFloatType });
+                    this.transitionOutput.setSize(pixels.x, pixels.y);
+                    this.renderTransition(transition, pixels, samples, this.transitionOutput);
+                    effects.render(this.webgl, scene, camera, size, this.transitionOutput.texture);
+                } else {
+                    this.renderTransition(transition, pixels, samples, null);
+                }
+            } else {
+                this.applySettings([scene]);
+
+                if (postprocess) {
+                    effects.render(this.webgl, scene, camera, size, undefined, samples);
+                } else {
+                    // Render the scene using the configured camera
+                    this.webgl.render(scene, camera);
                 }
             }
-            
-            const webgl_size = new ThreeVec2();
-            this.webgl.getSize(webgl_size);
 
-            if (webgl_size.x != size.x || webgl_size.y != size.y){
-                this.webgl.setSize(size.x, size.y);
-                this.webgl.setPixelRatio(pixelRatio);
+            if (key) return this.storeframe(key);
+        }
+
+        return this.webgl.domElement;
+    }
+
+    // Renders a snapshot pass of a scene with this renderer's context, by
+    // swapping the mesh materials for the frame. Sprites, lines and points
+    // have no pass materials and are hidden. The result is only valid
+    // until the next render, copy it right away.
+    public renderSnapshot(scene: Scene, camera: Camera, size: Vector2, options: SnapshotRenderOptions) {
+        if (size.x <= 0 || size.y <= 0) return this.webgl.domElement;
+
+        const pixelRatio = options.pixelRatio ?? 1;
+        this.resize(size, pixelRatio);
+        this.syncAspect(camera, size);
+        this.prunesnapshots();
+
+        const swapped: [Mesh, Material | Material[]][] = [];
+        const hidden: Object3D[] = [];
+        scene.traverse((child) => {
+            if (!child.visible) return;
+            // Their own materials would show up as ids, depths or mattes
+            if ((child as Sprite).isSprite || (child as Line).isLine || (child as Points).isPoints) {
+                child.visible = false;
+                hidden.push(child);
+                return;
+            }
+            const mesh = child as Mesh;
+            if (!mesh.isMesh) return;
+
+            const isSelected = options.selected?.has(mesh) ?? false;
+            const excluded = options.include !== undefined && !options.include.has(mesh);
+            if (excluded || (options.pass === 'matte' && !isSelected && options.occlusion === false)) {
+                mesh.visible = false;
+                hidden.push(mesh);
+                return;
+            }
+
+            let variants = this.snapshotMaterials.get(mesh);
+            if (!variants) this.snapshotMaterials.set(mesh, variants = new Map());
+            const key = options.pass + (isSelected ? ":selected" : "");
+            let material = variants.get(key);
+            if (!material) {
+                material = createSnapshotMaterial(mesh, {
+                    pass: options.pass,
+                    camera,
+                    original: mesh,
+                    selected: isSelected,
+                });
+                variants.set(key, material);
+            } else if (options.pass === 'silhouette') {
+                // Silhouettes follow the live transparency of the original
+                (material as MeshBasicMaterial).color.set(silhouetteColor(mesh));
             }
+            if (options.pass === 'depth') {
+                const uniforms = (material as ShaderMaterial).uniforms;
+                const perspective = camera as PerspectiveCamera;
+                uniforms.depthNear.value = options.near ?? perspective.near ?? 0.1;
+                uniforms.depthFar.value = options.far ?? perspective.far ?? 100;
+            }
+
+            swapped.push([mesh, mesh.material]);
+            mesh.material = material;
+        });
+
+        // Flat data, no background, fog or tone mapping
+        const background = scene.background;
+        const fog = scene.fog;
+        const toneMapping = this.webgl.toneMapping;
+        const colorSpace = this.webgl.outputColorSpace;
+        const clearColor = this.webgl.getClearColor(new Color());
+        const clearAlpha = this.webgl.getClearAlpha();
+        scene.background = null;
+        scene.fog = null;
+        this.webgl.toneMapping = NoToneMapping;
+        if (options.pass === 'id' || options.pass === 'depth' || options.pass === 'normal') {
+            this.webgl.outputColorSpace = LinearSRGBColorSpace;
+        }
+        this.webgl.setClearColor(0x000000, 0);
 
+        const samples = options.pass === 'silhouette' || options.pass === 'matte' ? options.samples ?? 0 : 0;
+        try {
+            if (samples > 0) {
+                const width = Math.floor(size.x * pixelRatio);
+                const height = Math.floor(size.y * pixelRatio);
+                // Half floats, like the transition targets, keep linear greys precise
+                this.snapshotTarget ??= new WebGLRenderTarget(width, height, { type: HalfFloatType, samples });
+                this.snapshotOutput ??= new OutputPass();
+                if (this.snapshotTarget.samples !== samples) {
+                    // Allocated again with the new sample count on next use
+                    this.snapshotTarget.samples = samples;
+                    this.snapshotTarget.dispose();
+                }
+                this.snapshotTarget.setSize(width, height);
 
-            // Render the scene using the configured camera
-            this.webgl.render(scene, camera);
+                this.webgl.setRenderTarget(this.snapshotTarget);
+                this.webgl.render(scene, camera);
+                // Colour conversion happens on the way to the canvas
+                this.snapshotOutput.renderToScreen = true;
+                this.snapshotOutput.render(this.webgl, null, this.snapshotTarget, 0, false);
+            } else {
+                this.webgl.setRenderTarget(null);
+                this.webgl.render(scene, camera);
+            }
+        } finally {
+            this.webgl.setRenderTarget(null);
+            swapped.forEach(([mesh, material]) => { mesh.material = material; });
+            hidden.forEach((object) => { object.visible = true; });
+            scene.background = background;
+            scene.fog = fog;
+            this.webgl.toneMapping = toneMapping;
+            this.webgl.outputColorSpace = colorSpace;
+            this.webgl.setClearColor(clearColor, clearAlpha);
         }
 
         return this.webgl.domElement;
     }
 
+    // Frees the replacement materials of meshes no longer in a scene
+    private prunesnapshots() {
+        this.snapshotMaterials.forEach((variants, mesh) => {
+            let root: Object3D = mesh;
+            while (root.parent) root = root.parent;
+            if ((root as Scene).isScene) return;
+            variants.forEach((material) => material.dispose());
+            this.snapshotMaterials.delete(mesh);
+        });
+    }
+
+    // Renders the outgoing and incoming scenes off-screen, then mixes them
+    // into the canvas (or a linear target) with the transition shader.
+    // `pixels` is the size in pixels.
+    private renderTransition(transition: SceneTransitionState, pixels: ThreeVec2, samples: number, output: WebGLRenderTarget | null) {
+        if (!this.transitionTargets) {
+            // Half floats keep the linear HDR range until the final tone mapping
+            this.transitionTargets = [
+                new WebGLRenderTarget(pixels.x, pixels.y, { type: HalfFloatType, samples }),
+                new WebGLRenderTarget(pixels.x, pixels.y, { type: HalfFloatType, samples }),
+            ];
+            this.transitionMaterial = createTransitionMaterial();
+            this.transitionQuad = new FullScreenQuad(this.transitionMaterial);
+        }
+
+        const [fromTarget, toTarget] = this.transitionTargets;
+        [fromTarget, toTarget].forEach((target) => {
+            if (target.samples !== samples) {
+                // Allocated again with the new sample count on next use
+                target.samples = samples;
+                target.dispose();
+            }
+            target.setSize(pixels.x, pixels.y);
+        });
+
+        this.webgl.setRenderTarget(fromTarget);
+        this.webgl.render(transition.from.scene, transition.from.camera);
+        this.webgl.setRenderTarget(toTarget);
+        this.webgl.render(this.master.selectedScene, this.master.selectedCamera);
+        this.webgl.setRenderTarget(null);
+
+        const material = this.transitionMaterial;
+        material.uniforms.tFrom.value = fromTarget.texture;
+        material.uniforms.tTo.value = toTarget.texture;
+        material.uniforms.resolution.value.set(pixels.x, pixels.y);
+        applyTransitionUniforms(material, transition);
+
+        // Tone mapping and colour conversion only happen on the way to the canvas
+        this.webgl.setRenderTarget(output);
+        this.transitionQuad.render(this.webgl);
+        this.webgl.setRenderTarget(null);
+    }
+
+    // Frees everything this renderer put on the GPU and hands the context back
+    public dispose() {
+        this.transitionTargets?.forEach((target) => target.dispose());
+        this.transitionTargets = undefined;
+        this.transitionOutput?.dispose();
+        this.transitionOutput = undefined;
+        this.transitionMaterial?.dispose();
+        this.transitionMaterial = undefined;
+        this.transitionQuad?.dispose();
+        this.transitionQuad = undefined;
+
+        this.snapshotMaterials.forEach((variants) => variants.forEach((material) => material.dispose()));
+        this.snapshotMaterials.clear();
+        this.snapshotTarget?.dispose();
+        this.snapshotTarget = undefined;
+        this.snapshotOutput?.dispose();
+        this.snapshotOutput = undefined;
+
+        // The kept frame stays: the Experience recreated after a seek or
+        // reload makes the same keys
+        contextPool.release(this);
+    }
+
 }
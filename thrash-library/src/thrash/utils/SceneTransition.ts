@@ -0,0 +1,94 @@
+import { Camera, Scene, ShaderMaterial, Vector2 } from "three";
+
+export type SceneTransitionType = 'cut' | 'crossfade' | 'wipe' | 'dissolve';
+
+export interface SceneTransitionOptions {
+    // Wipe direction in UV space, [1, 0] sweeps left to right
+    direction?: [number, number];
+    // Width of the wipe edge / dissolve grain blend, in [0, 1]
+    softness?: number;
+}
+
+// What the Renderer needs to draw a transition that is in progress.
+// The destination is always the Experience's selected scene and camera.
+export interface SceneTransitionState {
+    from: { scene: Scene; camera: Camera };
+    type: SceneTransitionType;
+    progress: number;
+    direction: Vector2;
+    softness: number;
+}
+
+const MODES: { [type in SceneTransitionType]: number } = {
+    cut: 0,
+    crossfade: 0,
+    wipe: 1,
+    dissolve: 2,
+};
+
+// Mixes two linear render targets, then tone maps and converts to the
+// output colour space like a direct render to the canvas would.
+export function createTransitionMaterial() {
+    return new ShaderMaterial({
+        uniforms: {
+            tFrom: { value: null },
+            tTo: { value: null },
+            progress: { value: 0 },
+            mode: { value: 0 },
+            direction: { value: new Vector2(1, 0) },
+            softness: { value: 0.1 },
+            resolution: { value: new Vector2(1, 1) },
+        },
+        vertexShader: /* glsl */ `
+            varying vec2 vUv;
+            void main() {
+                vUv = uv;
+                gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+            }
+        `,
+        fragmentShader: /* glsl */ `
+            uniform sampler2D tFrom;
+            uniform sampler2D tTo;
+            uniform float progress;
+            uniform int mode;
+            uniform vec2 direction;
+            uniform float softness;
+            uniform vec2 resolution;
+            varying vec2 vUv;
+
+            float hash(vec2 p) {
+                return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+            }
+
+            void main() {
+                vec4 a = texture2D(tFrom, vUv);
+                vec4 b = texture2D(tTo, vUv);
+
+                float m = progress;
+                if (mode != 0) {
+                    // Per-pixel threshold: position along the sweep, or noise
+                    float threshold = mode == 1
+                        ? clamp(dot(vUv - 0.5, normalize(direction)) + 0.5, 0.0, 1.0)
+                        : hash(floor(vUv * resolution));
+                    float s = max(softness, 1e-4);
+                    m = smoothstep(0.0, 1.0, (progress * (1.0 + s) - threshold) / s);
+                }
+
+                gl_FragColor = mix(a, b, m);
+
+                #include <tonemapping_fragment>
+                #include <colorspace_fragment>
+            }
+        `,
+        depthTest: false,
+        depthWrite: false,
+    });
+}
+
+export function applyTransitionUniforms(material: ShaderMaterial, state: SceneTransitionState) {
+    const uniforms = material.uniforms;
+    uniforms.progress.value = state.progress;
+    uniforms.mode.value = MODES[state.type];
+    uniforms.direction.value.copy(state.direction);
+    uniforms.softness.value = state.softness;
+}
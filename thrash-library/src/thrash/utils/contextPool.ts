@@ -0,0 +1,89 @@
+import { WebGLRenderer } from "three";
+
+export interface ContextReport {
+  owners: number;
+  width: number;
+  height: number;
+  geometries: number;
+  textures: number;
+  programs: number;
+  calls: number;
+  triangles: number;
+}
+
+interface PooledContext {
+  renderer: WebGLRenderer;
+  owners: Set<object>;
+}
+
+// Browsers keep only a handful of WebGL contexts alive (often 16) and drop
+// the oldest beyond that. Experiences borrow a renderer from this pool
+// instead of creating their own. Every render is copied to the 2D canvas
+// right after it is drawn, so one context can serve any number of them.
+class ContextPool {
+  private contexts: PooledContext[] = [];
+  private limit = 1;
+
+  // Most contexts opened at once; owners share the least busy one beyond that
+  public setLimit(limit: number): void {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  public acquire(owner: object): WebGLRenderer {
+    const held = this.contexts.find((context) => context.owners.has(owner));
+    if (held) return held.renderer;
+
+    let context = this.contexts.reduce<PooledContext | undefined>(
+      (best, next) => (!best || next.owners.size < best.owners.size ? next : best),
+      undefined,
+    );
+    if (!context || (context.owners.size > 0 && this.contexts.length < this.limit)) {
+      // With an alpha channel so snapshot passes can clear to transparent
+      context = { renderer: new WebGLRenderer({ alpha: true }), owners: new Set() };
+      this.contexts.push(context);
+    }
+    context.owners.add(owner);
+    return context.renderer;
+  }
+
+  // Gives a renderer back. The last idle context stays open for the next
+  // owner (scenes are recreated on every seek), the others are closed.
+  public release(owner: object): void {
+    const context = this.contexts.find((entry) => entry.owners.has(owner));
+    if (!context) return;
+
+    context.owners.delete(owner);
+    if (context.owners.size === 0) {
+      context.renderer.renderLists.dispose();
+      if (this.contexts.some((entry) => entry !== context && entry.owners.size === 0) || this.contexts.length > this.limit) {
+        this.close(context);
+      }
+    }
+  }
+
+  // Closes every context, even those still in use
+  public clear(): void {
+    [...this.contexts].forEach((context) => this.close(context));
+  }
+
+  public report(): ContextReport[] {
+    return this.contexts.map(({ renderer, owners }) => ({
+      owners: owners.size,
+      width: renderer.domElement.width,
+      height: renderer.domElement.height,
+      geometries: renderer.info.memory.geometries,
+      textures: renderer.info.memory.textures,
+      programs: renderer.info.programs?.length ?? 0,
+      calls: renderer.info.render.calls,
+      triangles: renderer.info.render.triangles,
+    }));
+  }
+
+  private close(context: PooledContext) {
+    context.renderer.dispose();
+    context.renderer.forceContextLoss();
+    this.contexts.splice(this.contexts.indexOf(context), 1);
+  }
+}
+
+export const contextPool = new ContextPool();
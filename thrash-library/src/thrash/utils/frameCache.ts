@@ -1,36 +1,207 @@
+import { Logger } from "@motion-canvas/core";
+
 export interface CachedFrame<T> {
   id: string;
   payload: T;
   createdAt: number;
+  // Estimated memory held by the payload
+  bytes: number;
+}
+
+// Parts of a stable cache key. The same parts give the same key after a
+// reload or seek, unlike createId().
+export interface FrameKey {
+  // Usually an Experience's node key, see FrameCache.invalidate()
+  namespace: string;
+  scene?: string;
+  frame?: number;
+  // Content the entry was made from: a string, or numbers to hash
+  hash?: string | number[];
+}
+
+export interface FrameCacheLimits {
+  entries?: number;
+  bytes?: number;
+}
+
+export interface FrameCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+}
+
+// Two 32-bit FNV style hashes over the bits of the values, as 16 hex digits
+export function hashValues(values: number[] | string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ 0x9e3779b9;
+  const mix = (word: number) => {
+    h1 = Math.imul(h1 ^ word, 16777619);
+    h2 = Math.imul(h2 ^ word, 0x85ebca6b) ^ (h1 >>> 13);
+  };
+
+  if (typeof values === 'string') {
+    for (let i = 0; i < values.length; i++) mix(values.charCodeAt(i));
+  } else {
+    const bits = new Float64Array(1);
+    const words = new Uint32Array(bits.buffer);
+    for (let i = 0; i < values.length; i++) {
+      bits[0] = values[i];
+      mix(words[0]);
+      mix(words[1]);
+    }
+    mix(values.length);
+  }
+
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
 }
 
+// Keys made by key() start with their namespace
+function namespaceOf(id: string) {
+  const end = id.indexOf('|');
+  return end < 0 ? '' : id.slice(0, end);
+}
+
+// Least recently used entries are evicted once the entry or byte budget is
+// exceeded. Stats are kept per namespace (the part of the key before '|').
 class FrameCache<T> {
   private store = new Map<string, CachedFrame<T>>();
   private counter = 0;
+  private bytes = 0;
+  // Render on demand keeps a single frame per Experience, the rest are
+  // snapshots cached on request
+  private limits: Required<FrameCacheLimits> = { entries: 32, bytes: 128 * 1024 * 1024 };
+  private counts = new Map<string, { hits: number, misses: number, evictions: number }>();
+  private listeners = new Map<string, Set<() => void>>();
+
+  constructor(private readonly measure: (payload: T) => number) { }
 
+  // Unique per session only; use key() for entries that should survive a reload
   public createId(prefix: string = 'frame'): string {
     this.counter += 1;
     return `${prefix}-${this.counter}`;
   }
 
+  public key(parts: FrameKey): string {
+    const hash = parts.hash === undefined ? '' : typeof parts.hash === 'string' ? parts.hash : hashValues(parts.hash);
+    return parts.namespace + '|' + (parts.scene ?? '') + '@' + (parts.frame ?? '') + '#' + hash;
+  }
+
+  public setLimits(limits: FrameCacheLimits): void {
+    this.limits = { ...this.limits, ...limits };
+    this.evict();
+  }
+
   public get(id: string): CachedFrame<T> | undefined {
-    return this.store.get(id);
+    const entry = this.store.get(id);
+    const counts = this.countsOf(namespaceOf(id));
+    if (!entry) {
+      counts.misses += 1;
+      return undefined;
+    }
+    counts.hits += 1;
+    // Most recently used entries live at the end of the map
+    this.store.delete(id);
+    this.store.set(id, entry);
+    return entry;
+  }
+
+  public has(id: string): boolean {
+    return this.store.has(id);
   }
 
   public set(id: string, payload: T): CachedFrame<T> {
-    const entry: CachedFrame<T> = { id, payload, createdAt: Date.now() };
+    if (this.store.has(id)) this.remove(id);
+
+    const entry: CachedFrame<T> = { id, payload, createdAt: Date.now(), bytes: this.measure(payload) };
     this.store.set(id, entry);
+    this.bytes += entry.bytes;
+    this.evict(id);
     return entry;
   }
 
   public delete(id: string): boolean {
-    return this.store.delete(id);
+    const entry = this.store.get(id);
+    if (!entry) return false;
+    this.remove(id);
+    return true;
   }
 
   public clear(): void {
-    this.store.clear();
+    [...this.store.keys()].forEach((id) => this.remove(id));
+    this.counts.clear();
   }
-}
 
-export const frameCache = new FrameCache<HTMLCanvasElement>();
+  // Drops every entry of a namespace and tells its listeners, e.g. when the
+  // scene graph changed in a way the keys can't capture
+  public invalidate(namespace: string): void {
+    [...this.store.keys()]
+      .filter((id) => namespaceOf(id) === namespace)
+      .forEach((id) => this.remove(id));
+    this.listeners.get(namespace)?.forEach((listener) => listener());
+  }
+
+  // Returns a function removing the listener
+  public onInvalidate(namespace: string, listener: () => void): () => void {
+    let set = this.listeners.get(namespace);
+    if (!set) this.listeners.set(namespace, set = new Set());
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) this.listeners.delete(namespace);
+    };
+  }
+
+  // Totals, or those of a single namespace
+  public stats(namespace?: string): FrameCacheStats {
+    const entries = [...this.store.values()].filter((entry) => namespace === undefined || namespaceOf(entry.id) === namespace);
+    const counts = namespace === undefined
+      ? [...this.counts.values()]
+      : [this.countsOf(namespace)];
+    return {
+      hits: counts.reduce((sum, count) => sum + count.hits, 0),
+      misses: counts.reduce((sum, count) => sum + count.misses, 0),
+      evictions: counts.reduce((sum, count) => sum + count.evictions, 0),
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+    };
+  }
+
+  public report(logger: Logger | Console, namespace?: string): FrameCacheStats {
+    const stats = this.stats(namespace);
+    const lookups = stats.hits + stats.misses;
+    logger.info(
+      "Frame cache" + (namespace !== undefined ? " (" + namespace + ")" : "")
+      + ": " + stats.entries + " entries, " + (stats.bytes / (1024 * 1024)).toFixed(1) + " MB"
+      + ", hits " + stats.hits + "/" + lookups
+      + (lookups > 0 ? " (" + Math.round(stats.hits / lookups * 100) + "%)" : "")
+      + ", evictions " + stats.evictions
+    );
+    return stats;
+  }
+
+  private countsOf(namespace: string) {
+    let counts = this.counts.get(namespace);
+    if (!counts) this.counts.set(namespace, counts = { hits: 0, misses: 0, evictions: 0 });
+    return counts;
+  }
+
+  private remove(id: string) {
+    const entry = this.store.get(id);
+    this.store.delete(id);
+    this.bytes -= entry.bytes;
+  }
+
+  // Evicts the least recently used entries, never `keep` (the one just added)
+  private evict(keep?: string) {
+    for (const id of this.store.keys()) {
+      if (this.store.size <= this.limits.entries && this.bytes <= this.limits.bytes) break;
+      if (id === keep) continue;
+      this.countsOf(namespaceOf(id)).evictions += 1;
+      this.remove(id);
+    }
+  }
+}
 
+export const frameCache = new FrameCache<HTMLCanvasElement>((canvas) => canvas.width * canvas.height * 4);
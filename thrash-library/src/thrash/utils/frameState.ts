@@ -0,0 +1,98 @@
+import { BufferGeometry, Camera, Color, Fog, FogExp2, InstancedMesh, Light, Material, Matrix3, Matrix4, Mesh, Object3D, Scene, Texture, Vector2, Vector3, Vector4 } from "three";
+
+// Everything a render of a scene depends on, flattened to numbers. Two equal
+// states give the same image, so a frame rendered before can be reused.
+export type FrameState = number[];
+
+// Light properties worth watching (the rest lives in the transform)
+const LIGHT_KEYS = ['color', 'groundColor', 'intensity', 'distance', 'angle', 'penumbra', 'decay', 'width', 'height', 'castShadow'];
+
+// Objects are told apart by uuid rather than id: uuids come from the scene
+// JSON, so the state of a frame is the same after the scene is rebuilt
+const uuidKeys = new Map<string, number>();
+function uuidkey(uuid: string) {
+    let key = uuidKeys.get(uuid);
+    if (key === undefined) {
+        key = 0x811c9dc5;
+        for (let i = 0; i < uuid.length; i++) key = Math.imul(key ^ uuid.charCodeAt(i), 16777619);
+        if (uuidKeys.size > 100000) uuidKeys.clear();
+        uuidKeys.set(uuid, key);
+    }
+    return key;
+}
+
+function pushvalue(state: FrameState, value: unknown) {
+    if (typeof value === 'number') state.push(value);
+    else if (typeof value === 'boolean') state.push(value ? 1 : 0);
+    else if (value instanceof Color) state.push(value.r, value.g, value.b);
+    else if (value instanceof Vector2) state.push(value.x, value.y);
+    else if (value instanceof Vector3) state.push(value.x, value.y, value.z);
+    else if (value instanceof Vector4) state.push(value.x, value.y, value.z, value.w);
+    else if (value instanceof Matrix3 || value instanceof Matrix4) state.push(...value.elements);
+    // Canvas and video textures bump their version when redrawn
+    else if (value instanceof Texture) state.push(uuidkey(value.uuid), value.version);
+    else if (value === null || value === undefined) state.push(-1);
+}
+
+function pushmaterial(state: FrameState, material: Material) {
+    state.push(uuidkey(material.uuid), material.version);
+    Object.values(material).forEach((value) => pushvalue(state, value));
+    // Custom shaders: uniforms set from the timeline are picked up here
+    const uniforms = (material as Material & { uniforms?: { [name: string]: { value: unknown } } }).uniforms;
+    if (uniforms) Object.values(uniforms).forEach((uniform) => pushvalue(state, uniform.value));
+}
+
+function pushgeometry(state: FrameState, geometry: BufferGeometry) {
+    state.push(uuidkey(geometry.uuid), geometry.drawRange.start, geometry.drawRange.count);
+    Object.values(geometry.attributes).forEach((attribute) => {
+        state.push('version' in attribute ? attribute.version : -1);
+    });
+}
+
+// Collects the state of a scene seen through a camera. Returns null when an
+// object opts out (userData.alwaysRender), e.g. a shader animated by its own
+// clock that the state can't see.
+export function captureFrameState(scene: Scene, camera: Camera, state: FrameState = []): FrameState | null {
+    scene.updateMatrixWorld();
+    if (camera.parent === null) camera.updateMatrixWorld();
+
+    state.push(...camera.matrixWorld.elements, ...camera.projectionMatrix.elements, camera.layers.mask);
+
+    pushvalue(state, scene.background);
+    pushvalue(state, scene.environment);
+    state.push(scene.backgroundIntensity, scene.backgroundBlurriness, scene.environmentIntensity);
+    const fog = scene.fog;
+    if (fog instanceof Fog) state.push(fog.color.r, fog.color.g, fog.color.b, fog.near, fog.far);
+    else if (fog instanceof FogExp2) state.push(fog.color.r, fog.color.g, fog.color.b, fog.density);
+
+    const materials = new Set<Material>();
+    let optout = false;
+    scene.traverseVisible((object: Object3D) => {
+        if (object.userData?.alwaysRender) optout = true;
+
+        state.push(uuidkey(object.uuid), ...object.matrixWorld.elements, object.layers.mask, object.renderOrder);
+        state.push(object.castShadow ? 1 : 0, object.receiveShadow ? 1 : 0);
+
+        const holder = object as Object3D & { geometry?: BufferGeometry, material?: Material | Material[] };
+        if (holder.geometry) pushgeometry(state, holder.geometry);
+        if (holder.material) {
+            (Array.isArray(holder.material) ? holder.material : [holder.material]).forEach((material) => {
+                state.push(uuidkey(material.uuid));
+                materials.add(material);
+            });
+        }
+
+        const mesh = object as Mesh;
+        if (mesh.morphTargetInfluences) state.push(...mesh.morphTargetInfluences);
+        if (object instanceof InstancedMesh) {
+            state.push(object.count, object.instanceMatrix.version, object.instanceColor?.version ?? -1);
+        }
+        if (object instanceof Light) {
+            LIGHT_KEYS.forEach((key) => pushvalue(state, (object as unknown as { [key: string]: unknown })[key]));
+        }
+    });
+
+    materials.forEach((material) => pushmaterial(state, material));
+
+    return optout ? null : state;
+}
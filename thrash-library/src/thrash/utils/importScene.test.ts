@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { OrthographicCamera, PerspectiveCamera } from 'three';
+import importScene from './importScene';
+
+describe('importScene', () => {
+    it('imports an orthographic viewport camera', () => {
+        const { cameras } = importScene({
+            scene: { object: { type: 'Scene' } },
+            camera: { object: { type: 'OrthographicCamera', left: -2, right: 2, top: 1, bottom: -1, zoom: 2 } },
+        });
+        expect(cameras).toHaveLength(1);
+        expect(cameras[0]).toBeInstanceOf(OrthographicCamera);
+        expect((cameras[0] as OrthographicCamera).right).toBe(2);
+        expect((cameras[0] as OrthographicCamera).zoom).toBe(2);
+    });
+
+    it('puts root cameras first and missing light targets last', () => {
+        const { scene } = importScene({
+            object: {
+                type: 'Scene',
+                children: [
+                    { type: 'DirectionalLight', target: 'gone' },
+                    { type: 'PerspectiveCamera', name: 'Shot' },
+                ],
+            },
+        });
+        expect(scene.children.map((child) => child.name)).toEqual(['Shot', 'DirectionalLight', 'LightTarget']);
+        expect(scene.children[0]).toBeInstanceOf(PerspectiveCamera);
+    });
+});
@@ -1,11 +1,39 @@
 import {
     Scene,
+    Camera,
     PerspectiveCamera,
+    OrthographicCamera,
     Mesh,
+    Group,
+    Sprite,
     BoxGeometry,
     SphereGeometry,
+    PlaneGeometry,
+    CylinderGeometry,
+    ConeGeometry,
+    TorusGeometry,
+    TorusKnotGeometry,
+    CapsuleGeometry,
+    CircleGeometry,
+    RingGeometry,
+    LatheGeometry,
+    ShapeGeometry,
+    ExtrudeGeometry,
+    BufferGeometryLoader,
+    Shape,
+    Curve,
+    CatmullRomCurve3,
+    CubicBezierCurve3,
+    LineCurve3,
+    QuadraticBezierCurve3,
     MeshStandardMaterial,
     MeshBasicMaterial,
+    MeshPhysicalMaterial,
+    MeshPhongMaterial,
+    MeshLambertMaterial,
+    MeshToonMaterial,
+    MeshNormalMaterial,
+    SpriteMaterial,
     Material,
     Color,
     Matrix4,
@@ -14,49 +42,262 @@ import {
     DirectionalLight,
     PointLight,
     SpotLight,
+    HemisphereLight,
+    RectAreaLight,
     BufferGeometry,
+    Texture,
+    Wrapping,
+    ColorSpace,
+    ShapeJSON,
+    CurveJSON,
+    ExtrudeGeometryOptions,
+    CubeTexture,
+    Vector2,
+    Vector3,
     FrontSide,
     BackSide,
-    DoubleSide
+    DoubleSide,
+    NoToneMapping,
+    PCFShadowMap,
+    ShadowMapType,
+    ToneMapping
 } from "three";
+import { RectAreaLightUniformsLib } from "three/examples/jsm/lights/RectAreaLightUniformsLib.js";
+import { Logger } from "@motion-canvas/core";
+import Loader from "./Loader";
 
-export type sceneJSON = Object | any;
+// Renderer settings from the editor's `project` block
+export interface ProjectSettings {
+    shadows: boolean;
+    shadowType: ShadowMapType;
+    toneMapping: ToneMapping;
+    toneMappingExposure: number;
+}
+
+// Entries of the ObjectLoader JSON as read here. Every field is optional,
+// the editor leaves out whatever matches three's defaults.
+interface EntryJSON {
+    uuid?: string;
+    type?: string;
+    name?: string;
+    userData?: Record<string, unknown>;
+}
+
+interface GeometryJSON extends EntryJSON {
+    width?: number;
+    height?: number;
+    depth?: number;
+    widthSegments?: number;
+    heightSegments?: number;
+    depthSegments?: number;
+    radius?: number;
+    radiusTop?: number;
+    radiusBottom?: number;
+    innerRadius?: number;
+    outerRadius?: number;
+    tube?: number;
+    radialSegments?: number;
+    tubularSegments?: number;
+    capSegments?: number;
+    segments?: number;
+    thetaSegments?: number;
+    phiSegments?: number;
+    curveSegments?: number;
+    phiStart?: number;
+    phiLength?: number;
+    thetaStart?: number;
+    thetaLength?: number;
+    arc?: number;
+    p?: number;
+    q?: number;
+    openEnded?: boolean;
+    points?: { x: number, y: number }[];
+    shapes?: string | string[];
+    options?: Omit<ExtrudeGeometryOptions, 'extrudePath'> & { extrudePath?: CurveJSON };
+}
+
+interface ImageJSON extends EntryJSON {
+    // A path or data URL, six of them for a cube map, or raw pixel data
+    url?: unknown;
+}
+
+// Numbers and flags are looked up by name, see TEXTURE_NUMBERS and TEXTURE_FLAGS
+interface TextureJSON extends EntryJSON {
+    [field: string]: unknown;
+    image?: string;
+    wrap?: number[];
+    repeat?: number[];
+    offset?: number[];
+    center?: number[];
+    colorSpace?: string;
+}
+
+// Fields are looked up by name, see the MATERIAL_* tables
+interface MaterialJSON extends EntryJSON {
+    [field: string]: unknown;
+    side?: number;
+    normalScale?: number[];
+    clearcoatNormalScale?: number[];
+}
+
+interface ObjectJSON extends EntryJSON {
+    matrix?: number[];
+    visible?: boolean;
+    children?: ObjectJSON[];
+    geometry?: string;
+    material?: string | string[];
+    fov?: number;
+    aspect?: number;
+    near?: number;
+    far?: number;
+    zoom?: number;
+    left?: number;
+    right?: number;
+    top?: number;
+    bottom?: number;
+    color?: number;
+    groundColor?: number;
+    intensity?: number;
+    distance?: number;
+    decay?: number;
+    angle?: number;
+    penumbra?: number;
+    width?: number;
+    height?: number;
+    shadow?: object;
+    target?: string;
+}
+
+// ObjectLoader output: shared resources and the object tree using them
+interface ObjectLoaderJSON {
+    geometries?: GeometryJSON[];
+    materials?: MaterialJSON[];
+    textures?: TextureJSON[];
+    images?: ImageJSON[];
+    shapes?: ShapeJSON[];
+    object?: ObjectJSON;
+}
+
+// Either a plain ObjectLoader file or the editor's app.json, which wraps one
+// together with the project settings and the viewport camera
+export type sceneJSON = ObjectLoaderJSON & {
+    project?: { [setting: string]: unknown };
+    scene?: ObjectLoaderJSON;
+    camera?: ObjectLoaderJSON;
+};
+
+type TextureRecord = Texture & Record<string, unknown>;
+type MaterialRecord = Material & Record<string, unknown>;
+
+// Material fields copied verbatim when both the JSON and the material have them
+const MATERIAL_NUMBERS = [
+    'roughness', 'metalness', 'emissiveIntensity', 'envMapIntensity', 'opacity',
+    'shininess', 'reflectivity', 'refractionRatio', 'clearcoat', 'clearcoatRoughness',
+    'sheen', 'sheenRoughness', 'transmission', 'thickness', 'attenuationDistance',
+    'ior', 'iridescence', 'iridescenceIOR', 'specularIntensity', 'dispersion',
+    'anisotropy', 'anisotropyRotation', 'alphaTest', 'rotation', 'blending',
+    'bumpScale', 'displacementScale', 'displacementBias', 'aoMapIntensity',
+    'lightMapIntensity', 'normalMapType', 'combine',
+];
+const MATERIAL_COLORS = [
+    'color', 'emissive', 'specular', 'sheenColor', 'specularColor', 'attenuationColor',
+];
+const MATERIAL_FLAGS = [
+    'transparent', 'wireframe', 'flatShading', 'vertexColors', 'depthTest', 'depthWrite',
+    'visible', 'toneMapped', 'fog', 'sizeAttenuation', 'dithering', 'alphaHash',
+    'premultipliedAlpha',
+];
 
-// Minimal importer for Three.js editor JSON.
-// Supports: BoxGeometry, MeshStandardMaterial, PerspectiveCamera.
-// Ensures: if a camera exists, it is added as the first child of the returned Scene.
-export default function (json: sceneJSON) {
+// Material slots holding a texture uuid
+const MATERIAL_MAPS = [
+    'map', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'envMap',
+    'aoMap', 'bumpMap', 'displacementMap', 'alphaMap', 'lightMap', 'specularMap',
+    'gradientMap', 'matcap', 'clearcoatMap', 'clearcoatRoughnessMap', 'clearcoatNormalMap',
+    'sheenColorMap', 'sheenRoughnessMap', 'transmissionMap', 'thicknessMap',
+    'iridescenceMap', 'iridescenceThicknessMap', 'anisotropyMap',
+    'specularIntensityMap', 'specularColorMap',
+];
+
+// Texture fields copied verbatim when present in the JSON
+const TEXTURE_NUMBERS = [
+    'mapping', 'channel', 'rotation', 'minFilter', 'magFilter', 'anisotropy',
+];
+const TEXTURE_FLAGS = ['flipY', 'generateMipmaps', 'premultiplyAlpha'];
+
+// Curves ExtrudeGeometry may carry as its extrudePath
+const EXTRUDE_PATHS: { [type: string]: new () => Curve<Vector3> } = {
+    CatmullRomCurve3,
+    CubicBezierCurve3,
+    LineCurve3,
+    QuadraticBezierCurve3,
+};
+
+// Importer for Three.js editor JSON (object format 4).
+// Supports the editor's built-in geometries, mesh materials, lights, groups,
+// sprites and cameras. Nodes that can't be built are reported through the logger.
+// Texture images (embedded data URLs or paths) are resolved through the loader,
+// so they count towards the Experience's pending loads.
+// Every camera is returned in `cameras`, scene cameras first and the editor's
+// viewport camera (top-level `camera` block, not part of the graph) last.
+// Cameras directly under the scene become its first children; placeholders for
+// light targets missing from the file are added after everything else.
+export default function (json?: sceneJSON, logger?: Logger | Console, loader?: Loader) {
 
     const scene = new Scene();
 
-    const sceneBlock = json?.scene ?? json;
-    if (!sceneBlock) return {scene, geomMap : {}, matMap : {}};
+    // Defaults mirror what the Renderer did before project blocks were read
+    const projectBlock = json?.project ?? {};
+    const project: ProjectSettings = {
+        shadows: typeof projectBlock.shadows === 'boolean' ? projectBlock.shadows : true,
+        shadowType: typeof projectBlock.shadowType === 'number' ? projectBlock.shadowType as ShadowMapType : PCFShadowMap,
+        toneMapping: typeof projectBlock.toneMapping === 'number' ? projectBlock.toneMapping as ToneMapping : NoToneMapping,
+        toneMappingExposure: typeof projectBlock.toneMappingExposure === 'number' ? projectBlock.toneMappingExposure : 1,
+    };
 
     const geomMap = new Map<string, BufferGeometry>();
     const matMap = new Map<string, Material>();
+    const texMap = new Map<string, Texture>();
 
-    const toColor = (value: any) => {
+    const sceneBlock = json?.scene ?? json;
+    if (!sceneBlock) return {scene, geomMap, matMap, texMap, project, cameras: [] as Camera[]};
+
+    const shapeMap = new Map<string, Shape>();
+
+    const warn = (kind: string, node: EntryJSON) => {
+        logger?.warn(`importScene: skipped ${kind} ${node?.uuid ?? '(no uuid)'} of type ${node?.type ?? '(no type)'}`);
+    };
+
+    const toColor = (value: unknown) => {
         if (typeof value === 'number') return new Color(value);
         if (Array.isArray(value)) return new Color().fromArray(value);
         return new Color(0xffffff);
     };
 
-    // Build geometries (BoxGeometry, SphereGeometry)
-    if (Array.isArray(sceneBlock.geometries)) {
-        for (const g of sceneBlock.geometries) {
-            if (!g?.uuid || !g?.type) continue;
-            if (g.type === 'BoxGeometry') {
+    // Shapes referenced by Shape/Extrude geometries
+    if (Array.isArray(sceneBlock.shapes)) {
+        for (const s of sceneBlock.shapes) {
+            if (!s?.uuid) continue;
+            shapeMap.set(s.uuid, new Shape().fromJSON(s));
+        }
+    }
+
+    const resolveShapes = (uuids: string | string[] | undefined) => {
+        const list = Array.isArray(uuids) ? uuids : [uuids];
+        return list.map((uuid) => shapeMap.get(uuid ?? '')).filter((shape): shape is Shape => !!shape);
+    };
+
+    const buildGeometry = (g: GeometryJSON): BufferGeometry | null => {
+        switch (g.type) {
+            case 'BoxGeometry': {
                 const width = g.width ?? 1;
                 const height = g.height ?? 1;
                 const depth = g.depth ?? 1;
                 const ws = g.widthSegments ?? 1;
                 const hs = g.heightSegments ?? 1;
                 const ds = g.depthSegments ?? 1;
-                geomMap.set(
-                    g.uuid,
-                    new BoxGeometry(width, height, depth, ws, hs, ds)
-                );
-            } else if (g.type === 'SphereGeometry') {
+                return new BoxGeometry(width, height, depth, ws, hs, ds);
+            }
+            case 'SphereGeometry': {
                 const radius = g.radius ?? 1;
                 const widthSegments = g.widthSegments ?? 32;
                 const heightSegments = g.heightSegments ?? 16;
@@ -64,63 +305,229 @@ export default function (json: sceneJSON) {
                 const phiLength = g.phiLength ?? Math.PI * 2;
                 const thetaStart = g.thetaStart ?? 0;
                 const thetaLength = g.thetaLength ?? Math.PI;
-                geomMap.set(
-                    g.uuid,
-                    new SphereGeometry(
-                        radius,
-                        widthSegments,
-                        heightSegments,
-                        phiStart,
-                        phiLength,
-                        thetaStart,
-                        thetaLength
-                    )
+                return new SphereGeometry(
+                    radius,
+                    widthSegments,
+                    heightSegments,
+                    phiStart,
+                    phiLength,
+                    thetaStart,
+                    thetaLength
                 );
             }
+            // Missing fields fall through as undefined and pick up three's defaults
+            case 'PlaneGeometry':
+                return new PlaneGeometry(g.width, g.height, g.widthSegments, g.heightSegments);
+            case 'CylinderGeometry':
+                return new CylinderGeometry(
+                    g.radiusTop, g.radiusBottom, g.height, g.radialSegments,
+                    g.heightSegments, g.openEnded, g.thetaStart, g.thetaLength
+                );
+            case 'ConeGeometry':
+                return new ConeGeometry(
+                    g.radius, g.height, g.radialSegments, g.heightSegments,
+                    g.openEnded, g.thetaStart, g.thetaLength
+                );
+            case 'TorusGeometry':
+                return new TorusGeometry(g.radius, g.tube, g.radialSegments, g.tubularSegments, g.arc);
+            case 'TorusKnotGeometry':
+                return new TorusKnotGeometry(g.radius, g.tube, g.tubularSegments, g.radialSegments, g.p, g.q);
+            case 'CapsuleGeometry':
+                return new CapsuleGeometry(g.radius, g.height, g.capSegments, g.radialSegments, g.heightSegments);
+            case 'CircleGeometry':
+                return new CircleGeometry(g.radius, g.segments, g.thetaStart, g.thetaLength);
+            case 'RingGeometry':
+                return new RingGeometry(
+                    g.innerRadius, g.outerRadius, g.thetaSegments, g.phiSegments,
+                    g.thetaStart, g.thetaLength
+                );
+            case 'LatheGeometry': {
+                const points = Array.isArray(g.points)
+                    ? g.points.map((p) => new Vector2(p.x, p.y))
+                    : undefined;
+                return new LatheGeometry(points, g.segments, g.phiStart, g.phiLength);
+            }
+            case 'ShapeGeometry':
+                return new ShapeGeometry(resolveShapes(g.shapes), g.curveSegments);
+            case 'ExtrudeGeometry': {
+                const { extrudePath: path, ...options } = g.options ?? {};
+                const PathCurve = path ? EXTRUDE_PATHS[path.type] : undefined;
+                const extrudePath = path && PathCurve ? new PathCurve().fromJSON(path) : undefined;
+                return new ExtrudeGeometry(resolveShapes(g.shapes), { ...options, extrudePath });
+            }
+            case 'BufferGeometry':
+                // Raw attribute data (index, attributes, groups, morph targets)
+                return new BufferGeometryLoader().parse(g);
+        }
+        return null;
+    };
+
+    // Build geometries
+    if (Array.isArray(sceneBlock.geometries)) {
+        for (const g of sceneBlock.geometries) {
+            if (!g?.uuid || !g?.type) continue;
+            const geometry = buildGeometry(g);
+            if (!geometry) {
+                warn('geometry', g);
+                continue;
+            }
+            if (g.name) geometry.name = g.name;
+            geomMap.set(g.uuid, geometry);
         }
     }
 
-    // Build materials (MeshStandardMaterial and MeshBasicMaterial)
-    if (Array.isArray(sceneBlock.materials)) {
-        for (const m of sceneBlock.materials) {
-            if (!m?.uuid || !m?.type) continue;
-            if (m.type === 'MeshStandardMaterial') {
-                const mat = new MeshStandardMaterial({
+    // Images are only referenced by textures, keep the raw entries by uuid
+    const imageMap = new Map<string, ImageJSON>();
+    if (Array.isArray(sceneBlock.images)) {
+        for (const i of sceneBlock.images) {
+            if (i?.uuid) imageMap.set(i.uuid, i);
+        }
+    }
+
+    const buildTexture = (t: TextureJSON): Texture | null => {
+        const url = imageMap.get(t.image ?? '')?.url;
+        if (!loader) return null;
+
+        // Six urls describe a cube map; it is uploaded once every face is in
+        if (Array.isArray(url)) {
+            if (!url.every((face): face is string => typeof face === 'string')) return null;
+            const cube = new CubeTexture();
+            let pending = url.length;
+            url.forEach((face, index) => {
+                loader.loadImage(face, (image) => {
+                    cube.images[index] = image;
+                    pending -= 1;
+                    if (pending === 0) cube.needsUpdate = true;
+                });
+            });
+            return cube;
+        }
+
+        // Raw pixel data (DataTexture) is not supported
+        if (typeof url !== 'string') return null;
+        const texture = new Texture();
+        loader.loadImage(url, (image) => {
+            texture.image = image;
+            texture.needsUpdate = true;
+        });
+        return texture;
+    };
+
+    const applyTextureProps = (texture: Texture, t: TextureJSON) => {
+        const target = texture as TextureRecord;
+        for (const key of TEXTURE_NUMBERS) {
+            if (typeof t[key] === 'number') target[key] = t[key];
+        }
+        for (const key of TEXTURE_FLAGS) {
+            if (typeof t[key] === 'boolean') target[key] = t[key];
+        }
+        if (Array.isArray(t.wrap)) {
+            texture.wrapS = t.wrap[0] as Wrapping;
+            texture.wrapT = t.wrap[1] as Wrapping;
+        }
+        if (Array.isArray(t.repeat)) texture.repeat.fromArray(t.repeat);
+        if (Array.isArray(t.offset)) texture.offset.fromArray(t.offset);
+        if (Array.isArray(t.center)) texture.center.fromArray(t.center);
+        if (typeof t.colorSpace === 'string') texture.colorSpace = t.colorSpace as ColorSpace;
+        if (t.name) texture.name = t.name;
+        if (t.userData) texture.userData = { ...t.userData };
+    };
+
+    // Build textures
+    if (Array.isArray(sceneBlock.textures)) {
+        for (const t of sceneBlock.textures) {
+            if (!t?.uuid) continue;
+            const texture = buildTexture(t);
+            if (!texture) {
+                warn('texture', t);
+                continue;
+            }
+            applyTextureProps(texture, t);
+            texMap.set(t.uuid, texture);
+        }
+    }
+
+    const buildMaterial = (m: MaterialJSON): Material | null => {
+        switch (m.type) {
+            case 'MeshStandardMaterial':
+                return new MeshStandardMaterial({
                     color: toColor(m.color),
                     roughness: typeof m.roughness === 'number' ? m.roughness : 1,
                     metalness: typeof m.metalness === 'number' ? m.metalness : 0,
                     emissive: m.emissive != null ? toColor(m.emissive) : new Color(0x000000),
-                    emissiveIntensity: typeof m.emissiveIntensity === 'number' ? m.emissiveIntensity : 1,
-                    wireframe: !!m.wireframe,
-                    flatShading: !!m.flatShading,
                 });
-                if (typeof m.envMapIntensity === 'number') mat.envMapIntensity = m.envMapIntensity;
-                if (typeof m.opacity === 'number') mat.opacity = m.opacity;
-                if (typeof m.transparent === 'boolean') mat.transparent = m.transparent;
-                if (typeof m.side === 'number') {
-                    if (m.side === 0) mat.side = FrontSide;
-                    else if (m.side === 1) mat.side = BackSide;
-                    else if (m.side === 2) mat.side = DoubleSide;
-                }
-                matMap.set(m.uuid, mat);
-            } else if (m.type === 'MeshBasicMaterial') {
-                const mat = new MeshBasicMaterial({
-                    color: toColor(m.color),
-                    wireframe: !!m.wireframe,
-                });
-                if (typeof m.opacity === 'number') mat.opacity = m.opacity;
-                if (typeof m.transparent === 'boolean') mat.transparent = m.transparent;
-                if (typeof m.side === 'number') {
-                    if (m.side === 0) mat.side = FrontSide;
-                    else if (m.side === 1) mat.side = BackSide;
-                    else if (m.side === 2) mat.side = DoubleSide;
-                }
-                matMap.set(m.uuid, mat);
+            case 'MeshBasicMaterial':
+                return new MeshBasicMaterial({ color: toColor(m.color) });
+            case 'MeshPhysicalMaterial':
+                return new MeshPhysicalMaterial({ color: toColor(m.color) });
+            case 'MeshPhongMaterial':
+                return new MeshPhongMaterial({ color: toColor(m.color) });
+            case 'MeshLambertMaterial':
+                return new MeshLambertMaterial({ color: toColor(m.color) });
+            case 'MeshToonMaterial':
+                return new MeshToonMaterial({ color: toColor(m.color) });
+            case 'MeshNormalMaterial':
+                return new MeshNormalMaterial();
+            case 'SpriteMaterial':
+                return new SpriteMaterial({ color: toColor(m.color) });
+        }
+        return null;
+    };
+
+    const applyMaterialProps = (mat: Material, m: MaterialJSON) => {
+        const target = mat as MaterialRecord;
+        for (const key of MATERIAL_NUMBERS) {
+            if (typeof m[key] === 'number' && key in target) target[key] = m[key];
+        }
+        for (const key of MATERIAL_COLORS) {
+            const color = target[key];
+            if (m[key] != null && color instanceof Color) color.copy(toColor(m[key]));
+        }
+        for (const key of MATERIAL_FLAGS) {
+            if (typeof m[key] === 'boolean' && key in target) target[key] = m[key];
+        }
+        for (const key of MATERIAL_MAPS) {
+            if (typeof m[key] !== 'string' || !(key in target)) continue;
+            const texture = texMap.get(m[key] as string);
+            if (texture) target[key] = texture;
+        }
+        if (Array.isArray(m.normalScale) && target.normalScale instanceof Vector2) {
+            target.normalScale.fromArray(m.normalScale);
+        }
+        if (Array.isArray(m.clearcoatNormalScale) && target.clearcoatNormalScale instanceof Vector2) {
+            target.clearcoatNormalScale.fromArray(m.clearcoatNormalScale);
+        }
+        if (typeof m.side === 'number') {
+            if (m.side === 0) mat.side = FrontSide;
+            else if (m.side === 1) mat.side = BackSide;
+            else if (m.side === 2) mat.side = DoubleSide;
+        }
+        if (m.name) mat.name = m.name;
+        if (m.userData) mat.userData = { ...m.userData };
+    };
+
+    // Build materials
+    if (Array.isArray(sceneBlock.materials)) {
+        for (const m of sceneBlock.materials) {
+            if (!m?.uuid || !m?.type) continue;
+            const mat = buildMaterial(m);
+            if (!mat) {
+                warn('material', m);
+                continue;
             }
+            applyMaterialProps(mat, m);
+            matMap.set(m.uuid, mat);
         }
     }
 
-    const applyMatrixIfPresent = (target: Object3D, node: any) => {
+    const resolveMaterial = (ref: string | string[] | undefined): Material | Material[] => {
+        if (Array.isArray(ref)) {
+            return ref.map((uuid) => matMap.get(uuid) ?? new MeshStandardMaterial({ color: 0xffffff }));
+        }
+        return matMap.get(ref ?? '') ?? new MeshStandardMaterial({ color: 0xffffff });
+    };
+
+    const applyMatrixIfPresent = (target: Object3D, node: ObjectJSON) => {
         if (Array.isArray(node?.matrix) && node.matrix.length === 16) {
             const m = new Matrix4();
             m.fromArray(node.matrix);
@@ -129,78 +536,118 @@ export default function (json: sceneJSON) {
         }
     };
 
-    const buildCamera = (node: any): PerspectiveCamera => {
-        const fov = node?.fov ?? 50;
-        const aspect = node?.aspect ?? 1;
-        const near = node?.near ?? 0.1;
-        const far = node?.far ?? 2000;
-        const cam = new PerspectiveCamera(fov, aspect, near, far);
-        cam.name = node?.name ?? 'Camera';
-        applyMatrixIfPresent(cam, node);
+    // Scene and viewport cameras alike; null for any other node type
+    const buildCamera = (node: ObjectJSON): PerspectiveCamera | OrthographicCamera | null => {
+        let cam: PerspectiveCamera | OrthographicCamera;
+        if (node.type === 'PerspectiveCamera') {
+            const fov = node.fov ?? 50;
+            const aspect = node.aspect ?? 1;
+            const near = node.near ?? 0.1;
+            const far = node.far ?? 2000;
+            cam = new PerspectiveCamera(fov, aspect, near, far);
+        } else if (node.type === 'OrthographicCamera') {
+            cam = new OrthographicCamera(node.left, node.right, node.top, node.bottom, node.near, node.far);
+        } else {
+            return null;
+        }
+        if (typeof node.zoom === 'number') cam.zoom = node.zoom;
+        cam.updateProjectionMatrix();
         return cam;
     };
 
     const objectMap = new Map<string, Object3D>();
+    const cameras: Camera[] = [];
     const pendingTargets: Array<{ light: DirectionalLight | SpotLight, targetUUID: string }> = [];
+    let rectAreaReady = false;
+
+    // Shared tail for every built node: name, transform, flags, children, lookup
+    const finish = <O extends Object3D>(object: O, node: ObjectJSON, fallbackName: string): O => {
+        object.name = node.name ?? fallbackName;
+        applyMatrixIfPresent(object, node);
+        if (node.visible === false) object.visible = false;
+        if (node.userData) object.userData = { ...node.userData };
+        if (Array.isArray(node.children)) {
+            for (const c of node.children) {
+                const child = buildObject(c);
+                if (child) object.add(child);
+            }
+        }
+        if (node.uuid) objectMap.set(node.uuid, object);
+        return object;
+    };
 
-    const buildObject = (node: any): Object3D | null => {
+    const buildObject = (node: ObjectJSON): Object3D | null => {
         if (!node || typeof node !== 'object') return null;
         const t = node.type;
 
         if (t === 'Mesh') {
-            const geom = geomMap.get(node.geometry);
-            // Only support meshes whose geometry we can build (e.g., BoxGeometry).
-            if (!geom) return null;
-            const mat = matMap.get(node.material) ?? new MeshStandardMaterial({ color: 0xffffff });
-            const mesh = new Mesh(geom, mat);
-            mesh.name = node.name ?? 'Mesh';
-            applyMatrixIfPresent(mesh, node);
-            // Basic shadow flags; could be extended from JSON if provided
-            (mesh as any).castShadow = true;
-            (mesh as any).receiveShadow = true;
-            if (Array.isArray(node.children)) {
-                for (const c of node.children) {
-                    const child = buildObject(c);
-                    if (child) mesh.add(child);
-                }
+            const geom = geomMap.get(node.geometry ?? '');
+            // Only support meshes whose geometry we can build.
+            if (!geom) {
+                warn('mesh', node);
+                return null;
             }
-            if (node.uuid) objectMap.set(node.uuid, mesh);
-            return mesh;
+            const mesh = new Mesh(geom, resolveMaterial(node.material));
+            // Basic shadow flags; could be extended from JSON if provided
+            mesh.castShadow = true;
+            mesh.receiveShadow = true;
+            return finish(mesh, node, 'Mesh');
         }
 
-        if (t === 'PerspectiveCamera') {
-            // Cameras are handled at the root scene children level; skip here.
-            return null;
+        if (t === 'Sprite') {
+            const mat = typeof node.material === 'string' ? matMap.get(node.material) : undefined;
+            const sprite = new Sprite(mat instanceof SpriteMaterial ? mat : new SpriteMaterial());
+            return finish(sprite, node, 'Sprite');
+        }
+
+        if (t === 'Group') {
+            return finish(new Group(), node, 'Group');
+        }
+
+        const cam = buildCamera(node);
+        if (cam) {
+            cameras.push(cam);
+            return finish(cam, node, cam instanceof PerspectiveCamera ? 'Camera' : 'OrthographicCamera');
         }
 
         if (t === 'AmbientLight') {
             const color = node.color != null ? toColor(node.color) : new Color(0xffffff);
             const intensity = typeof node.intensity === 'number' ? node.intensity : 1;
-            const light = new AmbientLight(color as any, intensity);
-            light.name = node.name ?? 'AmbientLight';
-            applyMatrixIfPresent(light, node);
-            if (node.uuid) objectMap.set(node.uuid, light);
-            return light;
+            const light = new AmbientLight(color, intensity);
+            return finish(light, node, 'AmbientLight');
+        }
+
+        if (t === 'HemisphereLight') {
+            const sky = node.color != null ? toColor(node.color) : new Color(0xffffff);
+            const ground = node.groundColor != null ? toColor(node.groundColor) : new Color(0xffffff);
+            const intensity = typeof node.intensity === 'number' ? node.intensity : 1;
+            const light = new HemisphereLight(sky, ground, intensity);
+            return finish(light, node, 'HemisphereLight');
+        }
+
+        if (t === 'RectAreaLight') {
+            // Physically based materials need the LTC lookup tables for area lights
+            if (!rectAreaReady) {
+                RectAreaLightUniformsLib.init();
+                rectAreaReady = true;
+            }
+            const color = node.color != null ? toColor(node.color) : new Color(0xffffff);
+            const intensity = typeof node.intensity === 'number' ? node.intensity : 1;
+            const width = typeof node.width === 'number' ? node.width : 10;
+            const height = typeof node.height === 'number' ? node.height : 10;
+            const light = new RectAreaLight(color, intensity, width, height);
+            return finish(light, node, 'RectAreaLight');
         }
 
         if (t === 'DirectionalLight') {
             const color = node.color != null ? toColor(node.color) : new Color(0xffffff);
             const intensity = typeof node.intensity === 'number' ? node.intensity : 1;
-            const light = new DirectionalLight(color as any, intensity);
-            light.name = node.name ?? 'DirectionalLight';
-            applyMatrixIfPresent(light, node);
+            const light = new DirectionalLight(color, intensity);
             if (node.shadow) light.castShadow = true;
             if (typeof node.target === 'string') {
                 pendingTargets.push({ light, targetUUID: node.target });
             }
-            if (Array.isArray(node.children)) {
-                for (const c of node.children) {
-                    const child = buildObject(c);
-                    if (child) light.add(child);
-                }
-            }
-            if (node.uuid) objectMap.set(node.uuid, light);
-            return light;
+            return finish(light, node, 'DirectionalLight');
         }
 
         if (t === 'PointLight') {
@@ -208,18 +655,9 @@ export default function (json: sceneJSON) {
             const intensity = typeof node.intensity === 'number' ? node.intensity : 1;
             const distance = typeof node.distance === 'number' ? node.distance : 0;
             const decay = typeof node.decay === 'number' ? node.decay : 1;
-            const light = new PointLight(color as any, intensity, distance, decay);
-            light.name = node.name ?? 'PointLight';
-            applyMatrixIfPresent(light, node);
+            const light = new PointLight(color, intensity, distance, decay);
             if (node.shadow) light.castShadow = true;
-            if (Array.isArray(node.children)) {
-                for (const c of node.children) {
-                    const child = buildObject(c);
-                    if (child) light.add(child);
-                }
-            }
-            if (node.uuid) objectMap.set(node.uuid, light);
-            return light;
+            return finish(light, node, 'PointLight');
         }
 
         if (t === 'SpotLight') {
@@ -229,35 +667,18 @@ export default function (json: sceneJSON) {
             const angle = typeof node.angle === 'number' ? node.angle : Math.PI / 3;
             const penumbra = typeof node.penumbra === 'number' ? node.penumbra : 0;
             const decay = typeof node.decay === 'number' ? node.decay : 1;
-            const light = new SpotLight(color as any, intensity, distance, angle, penumbra, decay);
-            light.name = node.name ?? 'SpotLight';
-            applyMatrixIfPresent(light, node);
+            const light = new SpotLight(color, intensity, distance, angle, penumbra, decay);
             if (node.shadow) light.castShadow = true;
             if (typeof node.target === 'string') {
                 pendingTargets.push({ light, targetUUID: node.target });
             }
-            if (Array.isArray(node.children)) {
-                for (const c of node.children) {
-                    const child = buildObject(c);
-                    if (child) light.add(child);
-                }
-            }
-            if (node.uuid) objectMap.set(node.uuid, light);
-            return light;
+            return finish(light, node, 'SpotLight');
         }
 
-        // Generic container/group or unsupported types: recurse into children if any.
-        const container = new Object3D();
-        container.name = node.name ?? (t || 'Object3D');
-        applyMatrixIfPresent(container, node);
-        if (Array.isArray(node.children)) {
-            for (const c of node.children) {
-                const child = buildObject(c);
-                if (child) container.add(child);
-            }
-        }
-        if (node.uuid) objectMap.set(node.uuid, container);
-        return container;
+        // Generic container or unsupported types: keep the transform and recurse
+        // into children so nothing below the unknown node is lost.
+        if (t !== 'Object3D') warn('object', node);
+        return finish(new Object3D(), node, t || 'Object3D');
     };
 
     // Apply root scene transform if present
@@ -266,42 +687,48 @@ export default function (json: sceneJSON) {
         applyMatrixIfPresent(scene, root);
     }
 
-    // Only consider cameras found within the scene object's children
-    let camera: PerspectiveCamera | undefined;
-
-    // Build children from the scene graph
+    // Build children from the scene graph, keeping root cameras apart
+    const rootCameras: Camera[] = [];
     const children: Object3D[] = [];
     if (root && Array.isArray(root.children)) {
         for (const childNode of root.children) {
-            if (childNode?.type === 'PerspectiveCamera') {
-                if (!camera) {
-                    camera = buildCamera(childNode);
-                }
-                // Skip adding additional cameras as regular children
-                continue;
-            }
             const obj = buildObject(childNode);
-            if (obj) children.push(obj);
+            if (!obj) continue;
+            if (obj instanceof Camera) rootCameras.push(obj);
+            else children.push(obj);
         }
     }
 
+    // The editor's viewport camera, registered but never added to the graph
+    const viewport = json?.camera?.object;
+    if (viewport) {
+        const cam = buildCamera(viewport);
+        if (cam) {
+            cam.name = viewport.name ?? (cam instanceof PerspectiveCamera ? 'Camera' : 'OrthographicCamera');
+            applyMatrixIfPresent(cam, viewport);
+            cameras.push(cam);
+        } else {
+            warn('viewport camera', viewport);
+        }
+    }
+
+    // Root cameras first, then the rest of the graph
+    for (const cam of rootCameras) scene.add(cam);
+    for (const obj of children) scene.add(obj);
+
     // Resolve light targets after all objects have been built and mapped
     for (const { light, targetUUID } of pendingTargets) {
         const target = objectMap.get(targetUUID);
         if (target) {
-            (light as any).target = target;
+            light.target = target;
         } else {
             // Ensure a target exists in the scene graph so the light can orient
             const placeholder = new Object3D();
             placeholder.name = 'LightTarget';
             scene.add(placeholder);
-            (light as any).target = placeholder;
+            light.target = placeholder;
         }
     }
 
-    // Ensure camera (if any) is the first child
-    if (camera) scene.add(camera);
-    for (const obj of children) scene.add(obj);
-
-    return {scene, geomMap, matMap};
+    return {scene, geomMap, matMap, texMap, project, cameras};
 }
@@ -0,0 +1,25 @@
+// Deterministic smooth noise. The same seed and time always give the same
+// value, so anything driven by it renders identically in preview and export.
+
+// Integer hash to [0, 1)
+function hash(seed: number, i: number) {
+    let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(i, 0xc2b2ae35);
+    h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+    h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+    h ^= h >>> 16;
+    return (h >>> 0) / 4294967296;
+}
+
+// 1D value noise in [-1, 1] with two octaves, smooth in time
+export function createNoise(seed: number = 0) {
+    const sample = (s: number, t: number) => {
+        const i = Math.floor(t);
+        const f = t - i;
+        const u = f * f * (3 - 2 * f);
+        const a = hash(s, i) * 2 - 1;
+        const b = hash(s, i + 1) * 2 - 1;
+        return a + (b - a) * u;
+    };
+
+    return (t: number) => (sample(seed, t) * 2 + sample(seed + 1013, t * 2.07)) / 3;
+}
@@ -0,0 +1,33 @@
+import { CatmullRomCurve3, CubicBezierCurve3, Curve, CurvePath, Vector3 } from "three";
+import { getVector3, PossibleVector3 } from "./vectors";
+
+export type PathType = 'catmullrom' | 'bezier';
+
+export interface PathOptions {
+    type?: PathType;
+    // Join the last point back to the first (catmullrom only)
+    closed?: boolean;
+    // CatmullRom flavour, 'centripetal' avoids loops and cusps
+    curveType?: 'centripetal' | 'chordal' | 'catmullrom';
+    tension?: number;
+}
+
+// Builds a world-space curve through (catmullrom) or along (bezier) points.
+// Bezier points go anchor, handle, handle, anchor, handle, handle, anchor...
+export function createPath(points: PossibleVector3[], options: PathOptions = {}): Curve<Vector3> {
+    const vectors = points.map((point) => getVector3(point).clone());
+    if (vectors.length < 2) throw new Error("A path needs at least 2 points, got " + vectors.length);
+
+    if ((options.type ?? 'catmullrom') === 'catmullrom') {
+        return new CatmullRomCurve3(vectors, options.closed ?? false, options.curveType ?? 'centripetal', options.tension ?? 0.5);
+    }
+
+    if ((vectors.length - 1) % 3 !== 0) {
+        throw new Error("A bezier path needs 3n + 1 points (anchor, handle, handle, anchor...), got " + vectors.length);
+    }
+    const path = new CurvePath<Vector3>();
+    for (let i = 0; i + 3 < vectors.length; i += 3) {
+        path.add(new CubicBezierCurve3(vectors[i], vectors[i + 1], vectors[i + 2], vectors[i + 3]));
+    }
+    return path;
+}
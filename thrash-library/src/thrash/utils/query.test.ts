@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { Group, Mesh, MeshStandardMaterial } from 'three';
+import { describeQuery } from './query';
+
+describe('describeQuery', () => {
+    it('names objects, materials and classes instead of serialising them', () => {
+        const room = new Group();
+        room.name = 'Room';
+        const material = new MeshStandardMaterial();
+        room.toJSON = () => { throw new Error('serialised'); };
+
+        expect(describeQuery({ type: Mesh, tag: ['crate', 'wood'], material, within: room }))
+            .toBe("{ type: Mesh, tag: ['crate', 'wood'], material: " + material.uuid + ", within: Room }");
+    });
+
+    it('quotes name globs', () => {
+        expect(describeQuery('Cube*')).toBe("'Cube*'");
+    });
+});
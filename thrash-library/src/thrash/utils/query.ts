@@ -0,0 +1,112 @@
+import { Material, Object3D } from "three";
+
+// What to select in a scene. Every given field must match.
+export interface ObjectQuery {
+    // Name glob: `*` matches any run of characters, `?` a single one
+    name?: string;
+    // THREE type ('Mesh', 'PointLight'...) or class; 'Mesh' also matches skinned meshes
+    type?: string | (abstract new (...args: any[]) => Object3D);
+    // userData tags, all required. A tag is set either as a truthy userData
+    // key or in `userData.tags` (a list, or a comma separated string as
+    // exported from Blender custom properties)
+    tag?: string | string[];
+    // Exact userData values
+    userData?: { [key: string]: unknown };
+    // Uses a material with this name glob, or this very material
+    material?: string | Material;
+    // Only search below this object (or object name), itself excluded
+    within?: string | Object3D;
+    // Any other test
+    where?: (object: Object3D) => boolean;
+}
+
+export function globToRegExp(glob: string) {
+    const source = glob
+        .split('')
+        .map((char) => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+    return new RegExp('^' + source + '$');
+}
+
+function tagsof(object: Object3D): string[] {
+    const tags = object.userData?.tags;
+    if (Array.isArray(tags)) return tags.map(String);
+    if (typeof tags === 'string') return tags.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+    return [];
+}
+
+function hastag(object: Object3D, tag: string) {
+    return tagsof(object).includes(tag) || !!object.userData?.[tag];
+}
+
+export function matchesQuery(object: Object3D, query: ObjectQuery, names?: RegExp, materials?: RegExp) {
+    if (query.name !== undefined && !(names ?? globToRegExp(query.name)).test(object.name)) return false;
+
+    if (typeof query.type === 'string') {
+        const flags = object as unknown as { [key: string]: unknown };
+        if (object.type !== query.type && flags['is' + query.type] !== true) return false;
+    } else if (query.type && !(object instanceof query.type)) {
+        return false;
+    }
+
+    if (query.tag !== undefined) {
+        const tags = Array.isArray(query.tag) ? query.tag : [query.tag];
+        if (!tags.every((tag) => hastag(object, tag))) return false;
+    }
+
+    if (query.userData && !Object.entries(query.userData).every(([key, value]) => object.userData?.[key] === value)) {
+        return false;
+    }
+
+    if (query.material !== undefined) {
+        const held = (object as Object3D & { material?: Material | Material[] }).material;
+        const list = held ? (Array.isArray(held) ? held : [held]) : [];
+        const found = typeof query.material === 'string'
+            ? list.some((material) => (materials ?? globToRegExp(query.material as string)).test(material.name))
+            : list.includes(query.material);
+        if (!found) return false;
+    }
+
+    return !query.where || query.where(object);
+}
+
+// Every descendant of root (or of query.within) matching the query, in
+// depth-first scene order. A string is a name glob.
+export function queryObjects(root: Object3D, query: ObjectQuery | string): Object3D[] {
+    const resolved: ObjectQuery = typeof query === 'string' ? { name: query } : query;
+
+    const start = typeof resolved.within === 'string'
+        ? root.getObjectByName(resolved.within)
+        : resolved.within ?? root;
+    if (!start) return [];
+
+    const names = resolved.name !== undefined ? globToRegExp(resolved.name) : undefined;
+    const materials = typeof resolved.material === 'string' ? globToRegExp(resolved.material) : undefined;
+
+    const found: Object3D[] = [];
+    start.traverse((object) => {
+        if (object !== start && matchesQuery(object, resolved, names, materials)) found.push(object);
+    });
+    return found;
+}
+
+// Readable form of a query for messages. Objects and materials are given
+// by name (or uuid), never serialised: three's toJSON would walk them.
+export function describeQuery(query: ObjectQuery | string): string {
+    if (typeof query === 'string') return "'" + query + "'";
+
+    const describe = (value: unknown): string => {
+        if (value instanceof Object3D || value instanceof Material) return value.name || value.uuid;
+        // Classes and `where` tests
+        if (typeof value === 'function') return value.name || 'function';
+        if (Array.isArray(value)) return "[" + value.map(describe).join(", ") + "]";
+        if (typeof value === 'string') return "'" + value + "'";
+        if (value && typeof value === 'object') {
+            return "{ " + Object.entries(value).map(([key, entry]) => key + ": " + describe(entry)).join(", ") + " }";
+        }
+        return String(value);
+    };
+
+    const fields = Object.entries(query).filter(([, value]) => value !== undefined);
+    return "{ " + fields.map(([key, value]) => key + ": " + describe(value)).join(", ") + " }";
+}
@@ -0,0 +1,54 @@
+import { InterpolationFunction, Signal, SignalContext, SignalValue } from '@motion-canvas/core';
+import { Color, ColorRepresentation, Quaternion, Vector3 } from 'three';
+import { getQuaternion, getVector3, PossibleQuaternion, PossibleVector3 } from './vectors';
+
+export type Vector3Signal<TOwner = void> = Signal<PossibleVector3, Vector3, TOwner>;
+export type QuaternionSignal<TOwner = void> = Signal<PossibleQuaternion, Quaternion, TOwner>;
+export type ColorSignal<TOwner = void> = Signal<ColorRepresentation, Color, TOwner>;
+
+export const lerpVector3: InterpolationFunction<Vector3> = (from, to, value) =>
+  new Vector3().lerpVectors(from, to, value);
+
+export const slerpQuaternion: InterpolationFunction<Quaternion> = (from, to, value) =>
+  new Quaternion().slerpQuaternions(from, to, value);
+
+export const lerpColor: InterpolationFunction<Color> = (from, to, value) =>
+  new Color().lerpColors(from, to, value);
+
+// Values are cloned on parse so later mutations of the caller's vector
+// don't leak into the signal.
+export function createVector3Signal<TOwner = void>(
+  initial: SignalValue<PossibleVector3>,
+  owner?: TOwner,
+): Vector3Signal<TOwner> {
+  return new SignalContext<PossibleVector3, Vector3, TOwner>(
+    initial,
+    lerpVector3,
+    owner,
+    value => getVector3(value).clone(),
+  ).toSignal();
+}
+
+export function createQuaternionSignal<TOwner = void>(
+  initial: SignalValue<PossibleQuaternion>,
+  owner?: TOwner,
+): QuaternionSignal<TOwner> {
+  return new SignalContext<PossibleQuaternion, Quaternion, TOwner>(
+    initial,
+    slerpQuaternion,
+    owner,
+    value => getQuaternion(value).clone(),
+  ).toSignal();
+}
+
+export function createColorSignal<TOwner = void>(
+  initial: SignalValue<ColorRepresentation>,
+  owner?: TOwner,
+): ColorSignal<TOwner> {
+  return new SignalContext<ColorRepresentation, Color, TOwner>(
+    initial,
+    lerpColor,
+    owner,
+    value => new Color(value),
+  ).toSignal();
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Group, LinearSRGBColorSpace, Mesh, Object3D } from 'three';
+import { idColor, idObjects } from './snapshots';
+
+describe('idColor', () => {
+    it('tells apart objects sharing a name', () => {
+        const a = new Mesh();
+        const b = new Mesh();
+        a.name = b.name = 'Crate';
+        expect(idColor(a).getHex()).not.toBe(idColor(b).getHex());
+    });
+
+    it('keeps the colour of an object across re-imports', () => {
+        const original = new Mesh();
+        const reimported = new Object3D();
+        reimported.uuid = original.uuid;
+        expect(idColor(reimported).getHex()).toBe(idColor(original).getHex());
+    });
+});
+
+describe('idObjects', () => {
+    it('maps id colours back to their meshes', () => {
+        const root = new Group();
+        const meshes = [new Mesh(), new Mesh(), new Mesh()];
+        meshes.forEach((mesh) => root.add(mesh));
+        root.add(new Object3D());
+
+        const objects = idObjects(root);
+        expect(objects.size).toBe(3);
+        meshes.forEach((mesh) => expect(objects.get(idColor(mesh).getHex(LinearSRGBColorSpace))).toBe(mesh));
+    });
+});
@@ -0,0 +1,106 @@
+import { Logger } from "@motion-canvas/core";
+import { Camera, Color, LinearSRGBColorSpace, Material, Mesh, MeshBasicMaterial, MeshNormalMaterial, Object3D, PerspectiveCamera, ShaderMaterial } from "three";
+
+// silhouette: white shapes, grey where the material is transparent
+// depth:      linear depth, white at `near` fading to black at `far`
+// normal:     view-space normals packed into RGB
+// id:         one flat colour per mesh, see idColor() and idObjects()
+// matte:      white for the chosen objects, black (but occluding) for the rest
+// Only meshes are drawn; sprites, lines and points are left out of every pass.
+export type SnapshotPass = 'silhouette' | 'depth' | 'normal' | 'id' | 'matte';
+
+// Colour of an object in the 'id' pass, derived from its uuid: names can
+// repeat, uuids come from the scene JSON and survive re-imports. Channels
+// stay above 64 so ids stand out from the background.
+export function idColor(object: Object3D) {
+    let hash = 2166136261;
+    for (let i = 0; i < object.uuid.length; i++) {
+        hash = Math.imul(hash ^ object.uuid.charCodeAt(i), 16777619);
+    }
+    const channel = (shift: number) => (64 + ((hash >>> shift) & 0xff) % 192) / 255;
+    // Linear, like the 'id' pass output, so pixels read back as these bytes
+    return new Color().setRGB(channel(0), channel(8), channel(16), LinearSRGBColorSpace);
+}
+
+// Meshes under root by their 'id' pass colour, as 0xRRGGBB of a pixel.
+// Two meshes hashing to the same colour are logged and the first one kept.
+export function idObjects(root: Object3D, logger?: Logger | Console): Map<number, Object3D> {
+    const objects = new Map<number, Object3D>();
+    root.traverse((object) => {
+        if (!(object as Mesh).isMesh) return;
+        const id = idColor(object).getHex(LinearSRGBColorSpace);
+        const taken = objects.get(id);
+        if (taken) {
+            logger?.warn("Objects " + taken.uuid + " and " + object.uuid + " share the id colour #" + id.toString(16).padStart(6, '0'));
+            return;
+        }
+        objects.set(id, object);
+    });
+    return objects;
+}
+
+function createDepthMaterial(near: number, far: number) {
+    return new ShaderMaterial({
+        uniforms: {
+            depthNear: { value: near },
+            depthFar: { value: far },
+        },
+        vertexShader: /* glsl */ `
+            #include <common>
+            #include <skinning_pars_vertex>
+            varying float vViewZ;
+            void main() {
+                #include <skinbase_vertex>
+                #include <begin_vertex>
+                #include <skinning_vertex>
+                #include <project_vertex>
+                vViewZ = -mvPosition.z;
+            }
+        `,
+        fragmentShader: /* glsl */ `
+            uniform float depthNear;
+            uniform float depthFar;
+            varying float vViewZ;
+            void main() {
+                float d = clamp((vViewZ - depthNear) / (depthFar - depthNear), 0.0, 1.0);
+                gl_FragColor = vec4(vec3(1.0 - d), 1.0);
+            }
+        `,
+    });
+}
+
+export interface SnapshotMaterialContext {
+    pass: SnapshotPass;
+    camera: Camera;
+    // Original object of the mesh being replaced (clones get new uuids)
+    original: Object3D;
+    // Whether the original is one of the chosen objects ('matte')
+    selected: boolean;
+    near?: number;
+    far?: number;
+}
+
+// Replacement material of a mesh for a snapshot pass
+export function createSnapshotMaterial(mesh: Mesh, context: SnapshotMaterialContext): Material {
+    switch (context.pass) {
+        case 'depth': {
+            const camera = context.camera as PerspectiveCamera;
+            return createDepthMaterial(context.near ?? camera.near ?? 0.1, context.far ?? camera.far ?? 100);
+        }
+        case 'normal':
+            return new MeshNormalMaterial();
+        case 'id':
+            return new MeshBasicMaterial({ color: idColor(context.original), toneMapped: false });
+        case 'matte':
+            return new MeshBasicMaterial({ color: context.selected ? 0xffffff : 0x000000, toneMapped: false });
+        default:
+            return new MeshBasicMaterial({ color: silhouetteColor(mesh) });
+    }
+}
+
+// 'silhouette' colour of a mesh, following the live transparency of its material
+export function silhouetteColor(mesh: Mesh) {
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    const isTransparent = materials.some((material: Material) => material.transparent || material.opacity < 1);
+    return isTransparent ? 0x808080 : 0xffffff;
+}
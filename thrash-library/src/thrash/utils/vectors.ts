@@ -1,4 +1,4 @@
-import { Vector3 } from 'three';
+import { Euler, EulerOrder, Quaternion, Vector3 } from 'three';
 
 export type PossibleVector3 = Vector3 | number | [number, number, number];
 
@@ -9,3 +9,19 @@ export function getVector3(x: PossibleVector3): Vector3 {
   return new Vector3();
 }
 
+
+export type PossibleQuaternion = Quaternion | [number, number, number, number];
+
+export function getQuaternion(x: PossibleQuaternion): Quaternion {
+  if (x instanceof Quaternion) return x;
+  if (Array.isArray(x) && x.length === 4) return new Quaternion(x[0], x[1], x[2], x[3]);
+  return new Quaternion();
+}
+
+export type PossibleEuler = Euler | [number, number, number] | [number, number, number, EulerOrder];
+
+export function getEuler(x: PossibleEuler): Euler {
+  if (x instanceof Euler) return x;
+  if (Array.isArray(x) && x.length >= 3) return new Euler(x[0], x[1], x[2], x[3]);
+  return new Euler();
+}
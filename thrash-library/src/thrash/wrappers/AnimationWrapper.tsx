@@ -0,0 +1,137 @@
+import { all, createEffect, createSignal, easeInOutCubic, linear, SimpleSignal } from "@motion-canvas/core";
+import { AnimationAction, AnimationClip, AnimationMixer, MathUtils, Object3D } from "three";
+
+interface ClipState {
+    action: AnimationAction;
+    // Clip time in seconds, may run past the duration when looping
+    time: SimpleSignal<number, AnimationWrapper>;
+    weight: SimpleSignal<number, AnimationWrapper>;
+    loop: boolean;
+}
+
+// Drives the animation clips of a loaded model from the Motion Canvas timeline.
+// The mixer never advances on its own: every action time is a signal, and the
+// pose is re-evaluated whenever one changes, so preview, seek and export agree.
+export default class AnimationWrapper {
+
+    public readonly root: Object3D;
+    public readonly mixer: AnimationMixer;
+
+    private clips = new Map<string, ClipState>();
+    private disposeEffect: () => void;
+
+    constructor(root: Object3D, clips: AnimationClip[] = root.animations) {
+        this.root = root;
+        this.mixer = new AnimationMixer(root);
+
+        clips.forEach((clip) => {
+            const action = this.mixer.clipAction(clip);
+            // Keep the last pose instead of disabling the action at the end
+            action.clampWhenFinished = true;
+            action.play();
+            this.clips.set(clip.name, {
+                action,
+                time: createSignal(0, undefined, this),
+                weight: createSignal(0, undefined, this),
+                loop: true,
+            });
+        });
+
+        this.disposeEffect = createEffect(() => this.apply());
+    }
+
+    private apply() {
+        this.clips.forEach(({ action, time, weight, loop }) => {
+            const duration = action.getClip().duration;
+            const t = time();
+            action.time = loop
+                ? ((t % duration) + duration) % duration
+                : MathUtils.clamp(t, 0, duration);
+            action.setEffectiveWeight(weight());
+        });
+        // A zero delta only evaluates the pose at the times set above
+        this.mixer.update(0);
+    }
+
+    private state(name: string) {
+        const state = this.clips.get(name);
+        if (!state) throw new Error("No animation clip called " + name + ". Available: " + this.clipnames().join(", "));
+        return state;
+    }
+
+    clipnames() {
+        return [...this.clips.keys()];
+    }
+
+    durationget(name: string) {
+        return this.state(name).action.getClip().duration;
+    }
+
+    // Raw signals of a clip, for binding or custom tweens
+    clip(name: string) {
+        const { time, weight } = this.state(name);
+        return { time, weight };
+    }
+
+    // Plays a clip for `time` seconds of the timeline (one pass by default).
+    // Yield it without `*` to keep it running in the background.
+    *play(name: string, time?: number, options: {
+        from?: number,
+        timeScale?: number,
+        loop?: boolean,
+        fade?: number,
+    } = {}) {
+        const state = this.state(name);
+        const timeScale = options.timeScale ?? 1;
+        const duration = time ?? state.action.getClip().duration / Math.abs(timeScale);
+        const start = options.from ?? state.time();
+
+        state.loop = options.loop ?? true;
+        state.time(start);
+
+        const fade = options.fade ?? 0;
+        yield* all(
+            fade > 0 ? state.weight(1, fade, linear) : state.weight(1, 0),
+            state.time(start + duration * timeScale, duration, linear),
+        );
+    }
+
+    // Blends from one clip into another while both keep playing
+    *crossfade(from: string, to: string, time: number = 0.5, ease = easeInOutCubic) {
+        const a = this.state(from);
+        const b = this.state(to);
+        yield* all(
+            a.weight(0, time, ease),
+            b.weight(1, time, ease),
+            a.time(a.time() + time, time, linear),
+            b.time(b.time() + time, time, linear),
+        );
+    }
+
+    // Removes a clip from the pose, optionally fading it out
+    stop(name: string, fade: number = 0, ease = easeInOutCubic) {
+        const state = this.state(name);
+        return fade > 0 ? state.weight(0, fade, ease) : state.weight(0, 0);
+    }
+
+    // Moves a clip to a given time, instantly or over `duration` seconds.
+    // The clip becomes fully weighted so the pose shows.
+    scrub(name: string, clipTime: number, duration: number = 0, ease = easeInOutCubic) {
+        const state = this.state(name);
+        state.weight(1);
+        return state.time(clipTime, duration, ease);
+    }
+
+    reset() {
+        this.clips.forEach(({ time, weight }) => {
+            time.reset();
+            weight.reset();
+        });
+    }
+
+    dispose() {
+        this.disposeEffect();
+        this.mixer.stopAllAction();
+        this.mixer.uncacheRoot(this.root);
+    }
+}
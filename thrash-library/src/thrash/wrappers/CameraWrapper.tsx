@@ -1,23 +1,45 @@
-import { easeInOutCubic, easeInSine, easeOutSine, tween } from "@motion-canvas/core";
-import { PerspectiveCamera, Vector3 } from "three";
-import ObjectWrapper from "./ObjectWrapper";
+import { all, createSignal, easeInOutCubic, easeInSine, easeOutSine, SimpleSignal, tween } from "@motion-canvas/core";
+import { Box3, MathUtils, Object3D, PerspectiveCamera, Sphere, Vector3 } from "three";
+import ObjectWrapper, { MotionLayer, OrbitOptions, WorldTarget } from "./ObjectWrapper";
+import { getVector3, PossibleVector3 } from "../utils/vectors";
+
+export interface FrameOptions {
+    // Extra room around the subject, as a fraction of its radius
+    padding?: number;
+    // World direction to look along; defaults to the current bearing from the subject
+    direction?: PossibleVector3;
+}
 
 export default class PerspectiveCameraWrapper extends ObjectWrapper<PerspectiveCamera> {
 
-    *zoom(fov: number, time: number = 1, ease = easeInOutCubic) {
-        const ref = this.object;
-        const start = ref.fov;
-        const target = Math.max(1, Math.min(179, fov));
-        yield* tween(time, (value: number) => {
-            const t = ease(value);
-            ref.fov = start + (target - start) * t;
-            ref.updateProjectionMatrix();
+    public readonly fov: SimpleSignal<number, this>;
+    // Sum of the fov of the active additive layers
+    public readonly fovoffset: SimpleSignal<number, this>;
+
+    constructor(object: PerspectiveCamera) {
+        super(object);
+
+        this.fov = createSignal(object.fov, undefined, this);
+        this.fovoffset = createSignal(0, undefined, this);
+
+        this.effect(() => {
+            this.object.fov = this.fov() + this.fovoffset();
+            this.object.updateProjectionMatrix();
         });
-        return;
+    }
+
+    protected override applylayers(layers: MotionLayer[]) {
+        super.applylayers(layers);
+        this.fovoffset(layers.reduce((sum, layer) => sum + (layer.fov ?? 0), 0));
+    }
+
+    zoom(fov: number, time: number = 1, ease = easeInOutCubic) {
+        const target = Math.max(1, Math.min(179, fov));
+        return this.fov(target, time, ease);
     }
 
     zoomget() {
-        return this.object.fov;
+        return this.fov();
     }
 
     *zoomin(offset: number, time: number = 1, ease = easeInOutCubic) {
@@ -30,62 +52,103 @@ export default class PerspectiveCameraWrapper extends ObjectWrapper<PerspectiveC
         yield* this.zoom(current + offset, time, ease);
     }
 
-    // Orbits the camera around a center point on the XZ plane (Y-up),
-    // keeping the camera's height (Y) constant.
-    *orbit(lap_time = 5, angle_offset = Math.PI * 2, center?: Vector3) {
-        const cam = this.object;
+    // Orbits like ObjectWrapper.orbit, but by default on the XZ plane (Y-up),
+    // keeping the camera's height and looking at the center, with a fov dip
+    // of `options.fov` degrees halfway through (an additive layer, so zooms still apply).
+    *orbit(lap_time = 5, angle_offset = Math.PI * 2, center?: WorldTarget, options: OrbitOptions = {}) {
+        const fov_amplitude = options.fov ?? 5;
+        const duration = lap_time * Math.abs(angle_offset) / (2 * Math.PI);
 
-        const fov = this.zoomget();
+        const motion = super.orbit(lap_time, angle_offset, center, {
+            // -Y keeps the historic direction: positive angles turn from +X towards +Z
+            axis: [0, -1, 0],
+            orientation: 'lookat',
+            ...options,
+        });
+        if (fov_amplitude === 0) {
+            yield* motion;
+            return;
+        }
+
+        yield* all(
+            motion,
+            this.additive(duration, (_: number, u: number) => ({
+                fov: u <= 0.5
+                    ? -easeInSine(u * 2) * fov_amplitude
+                    : -fov_amplitude + easeOutSine(u * 2 - 1) * fov_amplitude,
+            })),
+        );
+    }
 
-        // Freeze start
-        const pos0 = this.positionget().clone();
+    // Half of the narrowest field of view (vertical or horizontal), in radians
+    private halffov(fov: number = this.fov()) {
+        const vertical = MathUtils.degToRad(fov) / 2;
+        const horizontal = Math.atan(Math.tan(vertical) * this.object.aspect);
+        return Math.min(vertical, horizontal);
+    }
 
-        // Determine orbit center: prefer explicit param -> last look target -> origin
-        const remembered: Vector3 | undefined = this.looktargetget();
-        const ctr = (center?.clone() ?? remembered?.clone() ?? new Vector3(0, 0, 0));
+    // Moves the camera so the subject's bounding sphere fills `fill` of the
+    // frame (1 touches the edges), keeping the fov and looking at its center.
+    *frame(subject: Object3D | ObjectWrapper<Object3D> | Box3, fill: number = 0.8, time: number = 1, ease = easeInOutCubic, options: FrameOptions = {}) {
+        const box = subject instanceof Box3
+            ? subject.clone()
+            : new Box3().setFromObject(subject instanceof ObjectWrapper ? subject.object : subject);
+        if (box.isEmpty()) return;
+
+        const sphere = box.getBoundingSphere(new Sphere());
+        const radius = Math.max(sphere.radius * (1 + (options.padding ?? 0)), 1e-6);
+
+        // Angle the sphere has to span, then the distance that makes it so
+        const angle = Math.atan(Math.max(fill, 1e-3) * Math.tan(this.halffov()));
+        const distance = radius / Math.sin(angle);
+
+        const start = this.worldpositionget();
+        const direction = options.direction !== undefined
+            ? getVector3(options.direction).clone().normalize().negate()
+            : start.clone().sub(sphere.center).normalize();
+        if (direction.lengthSq() === 0) direction.set(0, 0, 1);
+
+        const end = sphere.center.clone().addScaledVector(direction, distance);
+        this.remembertarget(sphere.center);
+
+        yield* all(
+            this.worldposition(end, time, ease),
+            this.quaternion(this.lookquaternion(sphere.center, end), time, ease),
+        );
+    }
 
-        // Relative start vector (from center to camera)
-        const rel0 = pos0.clone().sub(ctr);
-        const rTot = rel0.length();
-        if (rTot === 0) return;
+    // Dolly zoom (vertigo): changes the fov while moving along the line to the
+    // subject so that it keeps its size on screen.
+    *dollyzoom(fov: number, time: number = 1, ease = easeInOutCubic, subject?: WorldTarget) {
+        const focus = subject !== undefined ? this.worldpoint(subject) : this.looktargetget();
+        if (!focus) {
+            yield* this.zoom(fov, time, ease);
+            return;
+        }
 
-        // Y-up: azimuth around Y (XZ plane), keep Y fixed
-        const rXZ = Math.hypot(rel0.x, rel0.z);
-        const y0 = rel0.y;
-        const theta0 = Math.atan2(rel0.z, rel0.x);
+        const target = Math.max(1, Math.min(179, fov));
+        const fov0 = this.fov();
+        const start = this.worldpositionget();
+        const offset = start.clone().sub(focus);
+        const distance0 = offset.length();
+        if (distance0 === 0) return;
+        offset.normalize();
 
-        // Positive duration; signed angle for direction
-        const duration = lap_time * Math.abs(angle_offset) / (2 * Math.PI);
+        // Width at the subject is 2 * d * tan(fov / 2), held constant
+        const width = distance0 * Math.tan(MathUtils.degToRad(fov0) / 2);
 
-        // Pin exact start
-        cam.position.copy(pos0);
-        cam.lookAt(ctr);
-
-        yield* tween(duration, (u: number) => {
-            const t = u <= 0 ? 0 : u >= 1 ? 1 : easeInOutCubic(u);
-            const theta = theta0 + angle_offset * t;
-
-            let fov_offset = 0;
-            let fov_ampltiude = 5;
-            if (u <= 0.5){
-                fov_offset = -easeInSine(u*2) * fov_ampltiude;
-            }else{
-                fov_offset = -fov_ampltiude  + easeOutSine(u*2 - 1) * fov_ampltiude;
-            }
-
-            const newPos = new Vector3(
-                ctr.x + rXZ * Math.cos(theta),
-                ctr.y + y0,
-                ctr.z + rXZ * Math.sin(theta)
-            );
-
-            cam.position.copy(newPos);
-            cam.fov = fov + fov_offset;
-            cam.lookAt(ctr);
-            cam.updateProjectionMatrix()
+        yield* tween(time, (value: number) => {
+            const current = fov0 + (target - fov0) * ease(value);
+            const distance = width / Math.tan(MathUtils.degToRad(current) / 2);
+            this.fov(current);
+            this.position(this.parentpoint(focus.clone().addScaledVector(offset, distance)));
         });
     }
 
-    
+    override reset() {
+        super.reset();
+        this.fov.reset();
+        this.fovoffset.reset();
+    }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,219 @@
+import { all, delay, easeInOutCubic, Random, ThreadGenerator } from "@motion-canvas/core";
+import { ColorRepresentation, Object3D, Texture, Vector3 } from "three";
+import { getVector3, PossibleEuler, PossibleVector3 } from "../utils/vectors";
+import ObjectWrapper, { MaterialOptions, NoiseOptions, TextureSlot, WorldTarget } from "./ObjectWrapper";
+
+export interface StaggerOptions {
+    // Seconds between the starts of consecutive objects, 0 runs them all at once
+    delay?: number;
+    // Start order: as found, reversed, nearest / farthest from `from` first,
+    // or shuffled (always the same way for the same `seed`)
+    order?: 'index' | 'reverse' | 'nearest' | 'farthest' | 'random';
+    // Point the distance orders measure from (default world origin)
+    from?: WorldTarget;
+    seed?: number;
+}
+
+// Many objects animated as one. Every generator runs on all members, at once
+// or staggered; stagger() returns a copy of the group with other timing:
+//
+//   yield* core.query({ tag: 'crate' }).stagger(0.05, { order: 'nearest', from: core.get('Hero') }).positionup(1);
+export default class GroupWrapper<T extends Object3D = Object3D> {
+
+    public readonly wrappers: ObjectWrapper<T>[];
+    private readonly options: StaggerOptions;
+
+    constructor(wrappers: ObjectWrapper<T>[], options: StaggerOptions = {}) {
+        this.wrappers = wrappers;
+        this.options = options;
+    }
+
+    get length() { return this.wrappers.length; }
+    get objects(): T[] { return this.wrappers.map((wrapper) => wrapper.object); }
+
+    at(index: number) { return this.wrappers[index < 0 ? this.wrappers.length + index : index]; }
+
+    filter(predicate: (wrapper: ObjectWrapper<T>, index: number) => boolean) {
+        return new GroupWrapper(this.wrappers.filter(predicate), this.options);
+    }
+
+    stagger(time: number, options: Omit<StaggerOptions, 'delay'> = {}) {
+        return new GroupWrapper(this.wrappers, { ...this.options, ...options, delay: time });
+    }
+
+    parallel() {
+        return new GroupWrapper(this.wrappers, { ...this.options, delay: 0 });
+    }
+
+    // Members in the order they start
+    ordered(): ObjectWrapper<T>[] {
+        const list = [...this.wrappers];
+        switch (this.options.order) {
+            case 'reverse':
+                return list.reverse();
+            case 'nearest':
+            case 'farthest': {
+                const from = this.frompoint();
+                const distances = new Map(list.map((wrapper) => [wrapper, wrapper.worldpositionget().distanceTo(from)]));
+                const sign = this.options.order === 'nearest' ? 1 : -1;
+                // Array.sort is stable, so ties keep the scene order
+                return list.sort((a, b) => sign * (distances.get(a) - distances.get(b)));
+            }
+            case 'random': {
+                const random = new Random(this.options.seed ?? 0);
+                for (let i = list.length - 1; i > 0; i--) {
+                    const j = random.nextInt(0, i + 1);
+                    [list[i], list[j]] = [list[j], list[i]];
+                }
+                return list;
+            }
+            default:
+                return list;
+        }
+    }
+
+    private frompoint() {
+        const from = this.options.from;
+        if (from instanceof ObjectWrapper) return from.worldpositionget();
+        if (from instanceof Object3D) {
+            from.updateWorldMatrix(true, false);
+            return from.getWorldPosition(new Vector3());
+        }
+        return from !== undefined ? getVector3(from).clone() : new Vector3();
+    }
+
+    // Runs a task per member with the group's timing. `index` is the start rank.
+    *each(task: (wrapper: ObjectWrapper<T>, index: number) => ThreadGenerator) {
+        const step = this.options.delay ?? 0;
+        yield* all(...this.ordered().map((wrapper, index) =>
+            step > 0 ? delay(index * step, task(wrapper, index)) : task(wrapper, index),
+        ));
+    }
+
+    position(value: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.position(getVector3(value).clone(), time, ease));
+    }
+
+    positionup(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.positionup(amount, time, ease));
+    }
+
+    positiondown(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.positiondown(amount, time, ease));
+    }
+
+    positionright(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.positionright(amount, time, ease));
+    }
+
+    positionleft(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.positionleft(amount, time, ease));
+    }
+
+    positionforward(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.positionforward(amount, time, ease));
+    }
+
+    positionback(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.positionback(amount, time, ease));
+    }
+
+    positionadd(offset: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.positionadd(offset, time, ease));
+    }
+
+    positionsub(offset: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.positionsub(offset, time, ease));
+    }
+
+    worldposition(target: WorldTarget, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.worldposition(target, time, ease));
+    }
+
+    scale(value: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.scale(getVector3(value).clone(), time, ease));
+    }
+
+    scalemul(factors: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.scalemul(factors, time, ease));
+    }
+
+    scalediv(factors: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.scalediv(factors, time, ease));
+    }
+
+    rotation(next: PossibleEuler, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.rotation(next, time, ease));
+    }
+
+    rotationadd(delta: PossibleEuler, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.rotationadd(delta, time, ease));
+    }
+
+    rotateaxis(axis: PossibleVector3, angle: number, time: number = 0.33, ease = easeInOutCubic, space: 'local' | 'parent' = 'local') {
+        return this.each((wrapper) => wrapper.rotateaxis(axis, angle, time, ease, space));
+    }
+
+    spin(axis: PossibleVector3, speed: number, time: number, space: 'local' | 'parent' = 'local') {
+        return this.each((wrapper) => wrapper.spin(axis, speed, time, space));
+    }
+
+    lookat(target: WorldTarget, time: number = 0.33, ease = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.lookat(target, time, ease));
+    }
+
+    color(value: ColorRepresentation, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.color(value, time, ease, options));
+    }
+
+    emissive(value: ColorRepresentation, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.emissive(value, time, ease, options));
+    }
+
+    emissiveintensity(value: number, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.emissiveintensity(value, time, ease, options));
+    }
+
+    roughness(value: number, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.roughness(value, time, ease, options));
+    }
+
+    metalness(value: number, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.metalness(value, time, ease, options));
+    }
+
+    // Instant, like ObjectWrapper.texture
+    texture(slot: TextureSlot, texture: Texture | null, options: MaterialOptions = {}) {
+        this.wrappers.forEach((wrapper) => wrapper.texture(slot, texture, options));
+        return this;
+    }
+
+    opacity(value: number, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.opacity(value, time, ease, options));
+    }
+
+    visibility(visible: boolean, time: number = 0, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.visibility(visible, time, ease, options));
+    }
+
+    fadeIn(time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.fadeIn(time, ease, options));
+    }
+
+    fadeOut(time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.each((wrapper) => wrapper.fadeOut(time, ease, options));
+    }
+
+    // Each member shakes with its own seed, so they don't move in lockstep
+    shake(time: number = 0.6, options: NoiseOptions = {}) {
+        return this.each((wrapper, index) => wrapper.shake(time, { ...options, seed: (options.seed ?? 0) + index }));
+    }
+
+    select(ammount: number, time: number = 0.66, ease1 = easeInOutCubic, ease2 = easeInOutCubic) {
+        return this.each((wrapper) => wrapper.select(ammount, time, ease1, ease2));
+    }
+
+    reset() {
+        this.wrappers.forEach((wrapper) => wrapper.reset());
+    }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { all, chain, endPlayback, PlaybackStatus, startPlayback, Thread, ThreadGenerator, threads } from '@motion-canvas/core';
+import { Color, Mesh, MeshBasicMaterial, MeshStandardMaterial, Object3D, Quaternion, Vector3 } from 'three';
+import GroupWrapper from './GroupWrapper';
+import ObjectWrapper from './ObjectWrapper';
+
+// Steps a thread through `frames` frames at 60 fps, returns whether it finished
+function run(thread: Thread, frames: number) {
+    let done = false;
+    for (let i = 0; i < frames && !done; i++) {
+        thread.update(1 / 60);
+        done = thread.next().done;
+    }
+    return done;
+}
+
+// Plays a task that may spawn threads (all, delay...) like a scene does,
+// returns whether it finished within `frames` frames
+function play(task: ThreadGenerator, frames: number) {
+    const playback = { deltaTime: 1 / 60, framesToSeconds: (frames: number) => frames / 60 } as PlaybackStatus;
+    startPlayback(playback);
+    try {
+        const runner = threads(() => task);
+        for (let i = 0; i < frames; i++) {
+            if (runner.next().done) return true;
+        }
+        return false;
+    } finally {
+        endPlayback(playback);
+    }
+}
+
+describe('ObjectWrapper additive layers', () => {
+    it('keeps the handheld drift running until cancelled', () => {
+        const wrapper = new ObjectWrapper(new Object3D());
+        const thread = new Thread(wrapper.handheld());
+        expect(run(thread, 600)).toBe(false);
+        expect(wrapper.positionoffset().length()).toBeGreaterThan(0);
+    });
+
+    it('removes the offset of a cancelled shake', () => {
+        const object = new Object3D();
+        const wrapper = new ObjectWrapper(object);
+        const thread = new Thread(wrapper.shake(1));
+        run(thread, 10);
+        expect(wrapper.positionoffset().length()).toBeGreaterThan(0);
+
+        thread.cancel();
+        expect(wrapper.positionoffset().equals(new Vector3())).toBe(true);
+        expect(wrapper.quaternionoffset().equals(new Quaternion())).toBe(true);
+        expect(object.position.equals(new Vector3())).toBe(true);
+    });
+
+    it('keeps a running shake out of the pose carried over by reparent', () => {
+        const from = new Object3D();
+        const to = new Object3D();
+        from.position.set(1, 0, 0);
+        to.position.set(0, 2, 0);
+        const object = new Object3D();
+        from.add(object);
+        const wrapper = new ObjectWrapper(object);
+        const thread = new Thread(wrapper.shake(1));
+        run(thread, 10);
+
+        wrapper.reparent(to);
+        expect(object.parent).toBe(to);
+        expect(wrapper.positionget().toArray()).toEqual([1, -2, 0]);
+        expect(wrapper.quaternion().equals(new Quaternion())).toBe(true);
+
+        thread.cancel();
+        expect(object.position.toArray()).toEqual([1, -2, 0]);
+    });
+});
+
+describe('ObjectWrapper relative moves', () => {
+    it('start from where the previous move ended', () => {
+        const wrapper = new ObjectWrapper(new Object3D());
+        expect(play(chain(wrapper.positionup(1), wrapper.positionup(1), wrapper.scalemul(2), wrapper.scalemul(2)), 120)).toBe(true);
+        expect(wrapper.positionget().y).toBeCloseTo(2);
+        expect(wrapper.scaleget().x).toBeCloseTo(4);
+    });
+
+    it('follow the orientation an object has when they start', () => {
+        const wrapper = new ObjectWrapper(new Object3D());
+        // Turned to face +X before the dolly starts
+        expect(play(chain(wrapper.rotateaxis([0, 1, 0], Math.PI / 2), wrapper.dolly(1), wrapper.truck(1)), 120)).toBe(true);
+        expect(wrapper.positionget().x).toBeCloseTo(1);
+        expect(wrapper.positionget().z).toBeCloseTo(-1);
+    });
+
+    it('add rotations to the one reached before', () => {
+        const wrapper = new ObjectWrapper(new Object3D());
+        expect(play(chain(wrapper.rotationadd([0, Math.PI / 4, 0]), wrapper.rotationadd([0, Math.PI / 4, 0])), 120)).toBe(true);
+        expect(wrapper.rotationget().y).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('read the pose of each group member when it starts', () => {
+        const wrappers = [new ObjectWrapper(new Object3D()), new ObjectWrapper(new Object3D())];
+        const group = new GroupWrapper(wrappers).stagger(0.5);
+        // The second member is lifted before its turn comes
+        expect(play(all(group.positionright(1), wrappers[1].positionup(1, 0.3)), 120)).toBe(true);
+        expect(wrappers[1].positionget().toArray()).toEqual([1, 1, 0]);
+    });
+});
+
+describe('ObjectWrapper materials', () => {
+    it('tweens the fields a material has and restores them on reset', () => {
+        const standard = new MeshStandardMaterial({ color: 0xff0000, roughness: 1 });
+        const basic = new MeshBasicMaterial({ color: 0xff0000 });
+        const object = new Object3D();
+        object.add(new Mesh(undefined, standard), new Mesh(undefined, basic));
+        const wrapper = new ObjectWrapper(object);
+
+        const options = { deep: true };
+        expect(play(all(wrapper.color(0x0000ff, 0.2, undefined, options), wrapper.roughness(0.25, 0.2, undefined, options)), 60)).toBe(true);
+        expect(standard.color.getHex()).toBe(0x0000ff);
+        expect(basic.color.getHex()).toBe(0x0000ff);
+        expect(standard.roughness).toBe(0.25);
+        // Basic materials have no roughness
+        expect('roughness' in basic).toBe(false);
+
+        wrapper.reset();
+        expect(standard.color.equals(new Color(0xff0000))).toBe(true);
+        expect(standard.roughness).toBe(1);
+    });
+});
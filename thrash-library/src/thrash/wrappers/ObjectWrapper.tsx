@@ -1,19 +1,137 @@
-import { easeInOutCubic, tween, useLogger } from "@motion-canvas/core";
-import { Object3D, PerspectiveCamera, Vector3 } from "three";
-import { getVector3, PossibleVector3 } from "../utils/vectors";
+import { createEffect, easeInOutCubic, linear, TimingFunction, tween } from "@motion-canvas/core";
+import { Color, ColorRepresentation, Curve, Euler, Material, Matrix4, Object3D, Quaternion, Texture, Vector3 } from "three";
+import { getEuler, getVector3, PossibleEuler, PossibleVector3 } from "../utils/vectors";
+import { createPath, PathOptions } from "../utils/paths";
+import { createNoise } from "../utils/noise";
+import { createQuaternionSignal, createVector3Signal, QuaternionSignal, Vector3Signal } from "../utils/signals";
 
 
+export interface OrbitOptions {
+    // Rotation axis through the pivot, in the parent's space (default world up)
+    axis?: PossibleVector3;
+    ease?: TimingFunction;
+    // What happens to the orientation while orbiting:
+    // 'rotate' turns with the orbit, 'lookat' faces the pivot, 'keep' leaves it
+    orientation?: 'rotate' | 'lookat' | 'keep';
+    // Cameras only: how many degrees the fov dips halfway through the orbit
+    fov?: number;
+}
+
+export interface FollowOptions extends PathOptions {
+    // Easing over the whole path; the speed is otherwise constant
+    ease?: TimingFunction;
+    // 'lookahead' faces a point further along the path, 'keep' leaves the
+    // orientation alone; pass a target to keep looking at it instead
+    orientation?: 'lookahead' | 'keep';
+    target?: WorldTarget;
+    // How far ahead to look, as a fraction of the path length
+    lookahead?: number;
+    // Roll into turns: radians of roll per radian of turn over the look-ahead
+    bank?: number;
+    // Largest roll allowed, in radians
+    maxBank?: number;
+}
+
+// One contribution to the additive offsets that sit on top of the signals
+export interface MotionLayer {
+    // Added to the position, in the parent's space
+    position?: Vector3;
+    // Applied after the orientation, in local space
+    rotation?: Quaternion;
+    // Cameras only, degrees added to the fov
+    fov?: number;
+}
+
+export interface NoiseChannel {
+    // World units for position, radians for rotation
+    amplitude?: number;
+    // Oscillations per second
+    frequency?: number;
+    // Exponential fall-off per second, 0 keeps a steady amplitude
+    decay?: number;
+}
+
+export interface NoiseOptions {
+    seed?: number;
+    position?: NoiseChannel;
+    rotation?: NoiseChannel;
+}
+
+export interface MaterialOptions {
+    // Only touch this slot of a multi-material mesh
+    index?: number;
+    // Copy shared materials on first write so other meshes keep theirs
+    unique?: boolean;
+    // Also apply to every descendant (fadeIn / fadeOut always do)
+    deep?: boolean;
+}
+
+// Anything that has a place in the world: a point, an object or a wrapper
+export type WorldTarget = PossibleVector3 | Object3D | ObjectWrapper<Object3D>;
+
+type MaterialHolder = Object3D & { material?: Material | Material[] };
+// Fields of any material type, looked up by name and narrowed where used
+type MaterialRecord = Material & Record<string, unknown>;
+export type TextureSlot = 'map' | 'emissiveMap' | 'alphaMap' | 'lightMap' | 'roughnessMap' | 'metalnessMap';
+type MaterialNumber = 'opacity' | 'roughness' | 'metalness' | 'emissiveIntensity';
+type MaterialColor = 'color' | 'emissive';
+
 export default class ObjectWrapper<T extends Object3D> {
 
     public object: T;
-    // Remember the last explicit look target (world point)
-    protected _lastLookTarget?: Vector3;
+
+    // Transform signals. They are the source of truth: an effect copies their
+    // values into the THREE object whenever they change, so tweens can be
+    // chained with .to()/.back() and reset like any 2D node property.
+    public readonly position: Vector3Signal<this>;
+    public readonly quaternion: QuaternionSignal<this>;
+    public readonly scale: Vector3Signal<this>;
+
+    // Sum of the active additive layers (shake, noise, wobble...). They are
+    // applied on top of the transform signals, so tweens never fight them.
+    public readonly positionoffset: Vector3Signal<this>;
+    public readonly quaternionoffset: QuaternionSignal<this>;
+    private readonly layers = new Map<object, MotionLayer>();
+
+    // Remember the last explicit look target (world point, or an object
+    // whose position is read again whenever it is asked for)
+    protected _lastLookTarget?: Vector3 | Object3D;
+
+    // Parent at wrap time, restored by reset() after a reparent
+    private readonly initialParent: Object3D | null;
+
+    private readonly effects: (() => void)[] = [];
+
+    // Everything the material API changed, so reset() can undo it even on
+    // materials shared with other meshes
+    private readonly materialState = new Map<Material, { [key: string]: unknown }>();
+    private readonly visibleState = new Map<Object3D, boolean>();
+    private readonly swappedMaterials: { holder: MaterialHolder, index: number, original: Material }[] = [];
+    private readonly ownedMaterials = new Set<Material>();
 
     constructor(object: T) {
         this.object = object;
+        this.initialParent = object.parent;
+
+        this.position = createVector3Signal(object.position.clone(), this);
+        this.quaternion = createQuaternionSignal(object.quaternion.clone(), this);
+        this.scale = createVector3Signal(object.scale.clone(), this);
+
+        this.positionoffset = createVector3Signal(new Vector3(), this);
+        this.quaternionoffset = createQuaternionSignal(new Quaternion(), this);
+
+        this.effect(() => { this.object.position.copy(this.position()).add(this.positionoffset()); });
+        this.effect(() => { this.object.quaternion.copy(this.quaternion()).multiply(this.quaternionoffset()); });
+        this.effect(() => { this.object.scale.copy(this.scale()); });
+    }
+
+    // Registers a signal -> object sync that lives as long as the wrapper
+    protected effect(callback: () => void) {
+        this.effects.push(createEffect(callback));
     }
 
-    // Move along world axes by a scalar amount
+    // Move along the parent's axes by a scalar amount
+    // (see dolly / truck / pedestal for the object's own axes)
     *positionup(amount: number, time: number = 0.33, ease = easeInOutCubic) {
         const target = this.positionget().add(new Vector3(0, 1, 0).multiplyScalar(amount));
         yield* this.position(target, time, ease);
@@ -45,97 +163,664 @@ export default class ObjectWrapper<T extends Object3D> {
         yield* this.position(target, time, ease);
     }
 
-    *position(next: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
-        const start = this.object.position.clone();
-        const target = getVector3(next).clone();
-        yield* tween(time, (value: number) => {
-            const t = ease(value);
-            this.object.position.lerpVectors(start, target, t);
-        });
-    }
-
-    positionget() { return this.object.position.clone() }
+    positionget() { return this.position().clone() }
     *positionadd(offset: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
         const off = getVector3(offset);
         yield* this.position(this.positionget().add(off), time, ease);
     }
     *positionsub(offset: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
         const off = getVector3(offset);
-        yield* this.position(this.positionget().clone().sub(off), time, ease);
+        yield* this.position(this.positionget().sub(off), time, ease);
     }
 
-    // Rotate to face a point or an Object3D's current world position
-    *lookat(target: PossibleVector3 | Object3D, time: number = 0.33, ease = easeInOutCubic) {
-        // Capture start orientation
-        const startQuat = this.object.quaternion.clone();
-
-        // Resolve target world position
-        const targetWorld = new Vector3();
-        if (target instanceof Object3D) {
-            target.updateMatrixWorld();
-            target.getWorldPosition(targetWorld);
-        } else {
-            // Allow Vector3, number, or tuple via PossibleVector3
-            targetWorld.copy(getVector3(target));
+    // Direction of one of the object's own axes, in the parent's space
+    // (the space `position` lives in)
+    protected localaxis(x: number, y: number, z: number) {
+        return new Vector3(x, y, z).applyQuaternion(this.quaternion()).normalize();
+    }
+
+    // Local forward axis, matching Object3D.lookAt: cameras and lights look
+    // down -Z, every other object faces +Z
+    protected forwardaxis() {
+        const object = this.object as Object3D & { isCamera?: boolean, isLight?: boolean };
+        return object.isCamera || object.isLight ? this.localaxis(0, 0, -1) : this.localaxis(0, 0, 1);
+    }
+
+    // Move along the object's own forward axis (negative moves back)
+    *dolly(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        const target = this.positionget().addScaledVector(this.forwardaxis(), amount);
+        yield* this.position(target, time, ease);
+    }
+
+    // Move along the object's own right axis (negative moves left)
+    *truck(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        const target = this.positionget().addScaledVector(this.localaxis(1, 0, 0), amount);
+        yield* this.position(target, time, ease);
+    }
+
+    // Move along the object's own up axis (negative moves down)
+    *pedestal(amount: number, time: number = 0.33, ease = easeInOutCubic) {
+        const target = this.positionget().addScaledVector(this.localaxis(0, 1, 0), amount);
+        yield* this.position(target, time, ease);
+    }
+
+    // Move by an offset expressed in the object's own axes: x right, y up, z forward
+    *strafe(offset: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
+        const off = getVector3(offset);
+        const target = this.positionget()
+            .addScaledVector(this.localaxis(1, 0, 0), off.x)
+            .addScaledVector(this.localaxis(0, 1, 0), off.y)
+            .addScaledVector(this.forwardaxis(), off.z);
+        yield* this.position(target, time, ease);
+    }
+
+    // Current position in world space
+    // (from the signal, additive layers such as shake are left out)
+    worldpositionget() {
+        const point = this.positionget();
+        const parent = this.object.parent;
+        if (parent) {
+            parent.updateMatrixWorld(true);
+            parent.localToWorld(point);
         }
+        return point;
+    }
 
-        // Persist target so other motions (e.g. orbit) can infer center
-        this._lastLookTarget = targetWorld.clone();
+    // Current orientation in world space
+    worldquaternionget() {
+        this.object.updateMatrixWorld(true);
+        return this.object.getWorldQuaternion(new Quaternion());
+    }
+
+    // Current world position of a point, object or wrapper
+    protected worldpoint(target: WorldTarget) {
+        const object = target instanceof ObjectWrapper ? target.object : target;
+        if (object instanceof Object3D) {
+            object.updateMatrixWorld(true);
+            return object.getWorldPosition(new Vector3());
+        }
+        // Allow Vector3, number, or tuple via PossibleVector3
+        return getVector3(object).clone();
+    }
+
+    // Converts a world point into the parent's space (the space of `position`)
+    protected parentpoint(world: Vector3) {
+        const point = world.clone();
+        const parent = this.object.parent;
+        if (parent) {
+            parent.updateMatrixWorld(true);
+            parent.worldToLocal(point);
+        }
+        return point;
+    }
 
-        // Compute end orientation using a temporary lookAt and restore
-        this.object.updateMatrixWorld();
-        const originalQuat = this.object.quaternion.clone();
-        this.object.lookAt(targetWorld);
-        const endQuat = this.object.quaternion.clone();
-        this.object.quaternion.copy(originalQuat);
+    // Tween to a world-space point or an Object3D's world position.
+    // The path is a straight line in world space and is mapped through the
+    // parent's current matrix every frame, so it holds under moving parents.
+    *worldposition(target: WorldTarget, time: number = 0.33, ease = easeInOutCubic) {
+        const start = this.worldpositionget();
+        const end = this.worldpoint(target);
 
         yield* tween(time, (value: number) => {
-            const t = ease(value);
-            this.object.quaternion.slerpQuaternions(startQuat, endQuat, t);
+            this.position(this.parentpoint(start.clone().lerp(end, ease(value))));
+        });
+    }
+
+    // Moves the object under a new parent (pass the scene to detach it) while
+    // keeping its world transform, so props can be handed to moving rigs mid-animation.
+    reparent(parent: Object3D | ObjectWrapper<Object3D>) {
+        const next = parent instanceof ObjectWrapper ? parent.object : parent;
+        if (this.object.parent === next) return this;
+
+        // Carry over the pose the signals hold; object.position and quaternion
+        // also include the additive layers (shake, handheld), which stay on top
+        const matrix = new Matrix4().compose(this.position(), this.quaternion(), this.scale());
+        const previous = this.object.parent;
+        if (previous) {
+            previous.updateWorldMatrix(true, false);
+            matrix.premultiply(previous.matrixWorld);
+        }
+        next.updateWorldMatrix(true, false);
+        matrix.premultiply(next.matrixWorld.clone().invert());
+        next.add(this.object);
+
+        const position = new Vector3();
+        const quaternion = new Quaternion();
+        const scale = new Vector3();
+        matrix.decompose(position, quaternion, scale);
+        this.position(position);
+        this.quaternion(quaternion);
+        this.scale(scale);
+        return this;
+    }
+
+    // Rotate to face a point or an Object3D's current world position
+    *lookat(target: WorldTarget, time: number = 0.33, ease = easeInOutCubic) {
+        // Persist target so other motions (e.g. orbit) can infer center
+        this.remembertarget(target);
+
+        yield* this.quaternion(this.lookquaternion(this.worldpoint(target)), time, ease);
+    }
+
+    // Keeps facing a target for `time` seconds, following it as it moves.
+    // `blend` seconds are spent turning from the current orientation first.
+    *track(target: WorldTarget, time: number, blend: number = 0, ease = easeInOutCubic) {
+        this.remembertarget(target);
+        const start = this.quaternionget();
+
+        yield* tween(time, (_: number, elapsed: number) => {
+            const look = this.lookquaternion(this.worldpoint(target));
+            const t = blend > 0 ? ease(Math.min(1, elapsed / blend)) : 1;
+            this.quaternion(t < 1 ? start.clone().slerp(look, t) : look);
         });
     }
 
+    protected remembertarget(target: WorldTarget) {
+        const object = target instanceof ObjectWrapper ? target.object : target;
+        this._lastLookTarget = object instanceof Object3D ? object : getVector3(object).clone();
+    }
+
+    // Orientation (in the parent's space) the object would have when looking
+    // at a world point, optionally from another world position than its own.
+    // Same conventions as Object3D.lookAt; the object itself is left untouched.
+    protected lookquaternion(targetWorld: Vector3, eyeWorld: Vector3 = this.worldpositionget()) {
+        const object = this.object as Object3D & { isCamera?: boolean, isLight?: boolean };
+        const matrix = new Matrix4();
+        if (object.isCamera || object.isLight) matrix.lookAt(eyeWorld, targetWorld, object.up);
+        else matrix.lookAt(targetWorld, eyeWorld, object.up);
+
+        const result = new Quaternion().setFromRotationMatrix(matrix);
+        const parent = object.parent;
+        if (parent) {
+            parent.updateMatrixWorld(true);
+            const parentQuat = new Quaternion();
+            parent.matrixWorld.decompose(new Vector3(), parentQuat, new Vector3());
+            result.premultiply(parentQuat.invert());
+        }
+        return result;
+    }
+
     // Get current look direction (world space). Returns a normalized vector.
     lookatget() {
         return this.object.getWorldDirection(new Vector3());
     }
 
-    // Retrieve last explicit look target if available (world space point)
+    // Retrieve last explicit look target if available (world space point).
+    // Object targets are resolved to where they are now.
     looktargetget() {
-        return this._lastLookTarget?.clone();
+        if (!this._lastLookTarget) return undefined;
+        return this.worldpoint(this._lastLookTarget);
+    }
+
+    quaternionget() { return this.quaternion().clone(); }
+
+    // Absolute rotation to Euler angles (radians), slerped from the current orientation
+    rotation(next: PossibleEuler, time: number = 0.33, ease = easeInOutCubic) {
+        const target = new Quaternion().setFromEuler(getEuler(next));
+        return this.quaternion(target, time, ease);
+    }
+
+    rotationget() { return new Euler().setFromQuaternion(this.quaternion()); }
+
+    // Relative rotation by Euler angles in local space.
+    // Slerp takes the short way round; use rotateaxis for turns past 180°.
+    *rotationadd(delta: PossibleEuler, time: number = 0.33, ease = easeInOutCubic) {
+        const target = this.quaternionget().multiply(new Quaternion().setFromEuler(getEuler(delta)));
+        yield* this.quaternion(target, time, ease);
+    }
+
+    // Rotates by `angle` radians around an axis, in local or parent space.
+    // The angle itself is eased, so full and multiple turns work.
+    *rotateaxis(axis: PossibleVector3, angle: number, time: number = 0.33, ease = easeInOutCubic, space: 'local' | 'parent' = 'local') {
+        const start = this.quaternionget();
+        const dir = getVector3(axis).clone().normalize();
+        const step = new Quaternion();
+
+        yield* tween(time, (value: number) => {
+            step.setFromAxisAngle(dir, angle * ease(value));
+            this.quaternion(space === 'local'
+                ? start.clone().multiply(step)
+                : step.clone().multiply(start));
+        });
+    }
+
+    // Continuous spin at `speed` radians per second
+    spin(axis: PossibleVector3, speed: number, time: number, space: 'local' | 'parent' = 'local') {
+        return this.rotateaxis(axis, speed * time, time, linear, space);
+    }
+
+    // Orbits around a pivot (explicit point or object -> last look target -> origin).
+    // `lap_time` is the time of a full turn; `angle_offset` follows the right-hand rule around the axis.
+    *orbit(lap_time = 5, angle_offset = Math.PI * 2, center?: WorldTarget, options: OrbitOptions = {}) {
+        const ease = options.ease ?? easeInOutCubic;
+        const orientation = options.orientation ?? 'rotate';
+        const axis = getVector3(options.axis ?? [0, 1, 0]).clone().normalize();
+
+        // Pivot in world space (for lookat) and in the parent's space (for position)
+        const pivotWorld = center !== undefined ? this.worldpoint(center) : this.looktargetget() ?? new Vector3();
+        const pivot = this.parentpoint(pivotWorld);
+
+        // Freeze start
+        const pos0 = this.positionget();
+        const quat0 = this.quaternionget();
+        const rel0 = pos0.clone().sub(pivot);
+        if (rel0.lengthSq() === 0) return;
+
+        // Positive duration; signed angle for direction
+        const duration = lap_time * Math.abs(angle_offset) / (2 * Math.PI);
+        const step = new Quaternion();
+
+        yield* tween(duration, (u: number) => {
+            const t = u <= 0 ? 0 : u >= 1 ? 1 : ease(u);
+            step.setFromAxisAngle(axis, angle_offset * t);
+
+            this.position(rel0.clone().applyQuaternion(step).add(pivot));
+            if (orientation === 'rotate') this.quaternion(step.clone().multiply(quat0));
+            else if (orientation === 'lookat') this.quaternion(this.lookquaternion(pivotWorld));
+        });
     }
 
-    // Absolute scaling to a target scale vector
-    *scale(next: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
-        const start = this.object.scale.clone();
-        const target = getVector3(next).clone();
+    // Travels along a world-space curve (or a path through the given points)
+    // at constant speed, turning with it. See FollowOptions.
+    *follow(path: Curve<Vector3> | PossibleVector3[], time: number = 3, options: FollowOptions = {}) {
+        const curve = path instanceof Curve ? path : createPath(path, options);
+        const ease = options.ease ?? linear;
+        const lookahead = Math.max(options.lookahead ?? 0.02, 1e-4);
+        const closed = (curve as Curve<Vector3> & { closed?: boolean }).closed === true;
+        const bank = options.bank ?? 0;
+        const maxBank = options.maxBank ?? Math.PI / 4;
+
+        const object = this.object as Object3D & { isCamera?: boolean, isLight?: boolean };
+        const forwardSign = object.isCamera || object.isLight ? -1 : 1;
+        const roll = new Quaternion();
+        const up = object.up.clone().normalize();
+
+        // Point further along the path; past the end of an open path,
+        // keep going along the last tangent
+        const ahead = (u: number) => {
+            const next = u + lookahead;
+            if (closed) return curve.getPointAt(next % 1);
+            if (next <= 1) return curve.getPointAt(next);
+            return curve.getPointAt(1).addScaledVector(curve.getTangentAt(1), (next - 1) * curve.getLength());
+        };
+
+        // Signed heading change around `up` between u and the look-ahead point
+        const turn = (u: number) => {
+            const from = curve.getTangentAt(u).projectOnPlane(up);
+            const to = curve.getTangentAt(closed ? (u + lookahead) % 1 : Math.min(1, u + lookahead)).projectOnPlane(up);
+            if (from.lengthSq() === 0 || to.lengthSq() === 0) return 0;
+            return Math.sign(from.clone().cross(to).dot(up)) * from.angleTo(to);
+        };
+
         yield* tween(time, (value: number) => {
-            const t = ease(value);
-            this.object.scale.lerpVectors(start, target, t);
+            const u = Math.min(1, Math.max(0, ease(value)));
+            const point = curve.getPointAt(closed ? u % 1 : u);
+            this.position(this.parentpoint(point));
+
+            if (options.target !== undefined) {
+                this.quaternion(this.lookquaternion(this.worldpoint(options.target), point));
+            } else if ((options.orientation ?? 'lookahead') === 'lookahead') {
+                const look = this.lookquaternion(ahead(u), point);
+                if (bank !== 0) {
+                    const angle = Math.max(-maxBank, Math.min(maxBank, turn(u) * bank));
+                    roll.setFromAxisAngle(new Vector3(0, 0, forwardSign), -angle);
+                    look.multiply(roll);
+                }
+                this.quaternion(look);
+            }
+        });
+    }
+
+    // Adds, replaces (same key) or removes (no layer) an additive layer
+    protected setlayer(key: object, layer?: MotionLayer) {
+        if (layer) this.layers.set(key, layer);
+        else this.layers.delete(key);
+        this.applylayers([...this.layers.values()]);
+    }
+
+    protected applylayers(layers: MotionLayer[]) {
+        const position = new Vector3();
+        const rotation = new Quaternion();
+        layers.forEach((layer) => {
+            if (layer.position) position.add(layer.position);
+            if (layer.rotation) rotation.multiply(layer.rotation);
         });
+        this.positionoffset(position);
+        this.quaternionoffset(rotation);
+    }
+
+    // Runs an additive layer for `time` seconds, or until its thread is
+    // cancelled when Infinity. `sample` gets the elapsed time and the
+    // progress in [0, 1] (0 throughout when endless) and returns this
+    // frame's offsets. The layer is removed however the thread ends.
+    *additive(time: number, sample: (elapsed: number, progress: number) => MotionLayer) {
+        const key = {};
+        try {
+            yield* tween(time, (value: number, elapsed: number) => this.setlayer(key, sample(elapsed, value)));
+        } finally {
+            this.setlayer(key);
+        }
+    }
+
+    // Seeded noise on position (camera-relative axes) and rotation, as an
+    // additive layer. Sampled from the elapsed scene time, so renders repeat.
+    private *noise(time: number, options: NoiseOptions, defaults: { position: NoiseChannel, rotation: NoiseChannel }, ramp: number) {
+        const seed = options.seed ?? 0;
+        const position = { ...defaults.position, ...options.position };
+        const rotation = { ...defaults.rotation, ...options.rotation };
+        const channels = [0, 1, 2, 3, 4, 5].map((i) => createNoise(seed * 6 + i));
+
+        const envelope = (channel: NoiseChannel, elapsed: number) => {
+            const rampIn = ramp > 0 ? Math.min(1, elapsed / ramp) : 1;
+            // Always settle to zero so removing the layer doesn't pop
+            const rampOut = Math.min(1, (time - elapsed) / Math.max(ramp, 0.1));
+            return channel.amplitude * Math.exp(-channel.decay * elapsed) * rampIn * rampOut;
+        };
+
+        yield* this.additive(time, (elapsed) => {
+            const p = envelope(position, elapsed);
+            const r = envelope(rotation, elapsed);
+            const offset = new Vector3(
+                channels[0](elapsed * position.frequency),
+                channels[1](elapsed * position.frequency),
+                channels[2](elapsed * position.frequency),
+            ).multiplyScalar(p).applyQuaternion(this.quaternion());
+            const turn = new Euler(
+                channels[3](elapsed * rotation.frequency) * r,
+                channels[4](elapsed * rotation.frequency) * r,
+                channels[5](elapsed * rotation.frequency) * r * 0.5,
+            );
+            return { position: offset, rotation: new Quaternion().setFromEuler(turn) };
+        });
+    }
+
+    // Short decaying shake, e.g. for impacts
+    shake(time: number = 0.6, options: NoiseOptions = {}) {
+        return this.noise(time, options, {
+            position: { amplitude: 0.1, frequency: 12, decay: 5 },
+            rotation: { amplitude: 0.03, frequency: 10, decay: 5 },
+        }, 0);
+    }
+
+    // Slow steady drift like a hand-held camera, until cancelled unless
+    // given a time. Yield it without `*` to keep it running under other moves:
+    //
+    //   const drift = yield camera.handheld();
+    //   ...
+    //   cancel(drift);
+    handheld(time: number = Infinity, options: NoiseOptions = {}) {
+        return this.noise(time, options, {
+            position: { amplitude: 0.01, frequency: 0.6, decay: 0 },
+            rotation: { amplitude: 0.006, frequency: 0.4, decay: 0 },
+        }, 0.5);
     }
 
-    scaleget() { return this.object.scale.clone(); }
+    scaleget() { return this.scale().clone(); }
 
     // Multiplicative scaling by factors (per-axis)
     *scalemul(factors: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
         const f = getVector3(factors);
-        const target = this.scaleget().clone().multiply(f);
+        const target = this.scaleget().multiply(f);
         yield* this.scale(target, time, ease);
     }
 
     // Divisive scaling by factors (per-axis)
     *scalediv(factors: PossibleVector3, time: number = 0.33, ease = easeInOutCubic) {
         const f = getVector3(factors);
-        const target = this.scaleget().clone().divide(f);
+        const target = this.scaleget().divide(f);
         yield* this.scale(target, time, ease);
     }
 
+    // Materials this wrapper may write to, copying shared ones first when asked
+    materialsget(options: MaterialOptions = {}): Material[] {
+        const materials: Material[] = [];
+        const collect = (object: Object3D) => {
+            const holder = object as MaterialHolder;
+            if (!holder.material) return;
+            const list = Array.isArray(holder.material) ? holder.material : [holder.material];
+            const indices = options.index !== undefined ? [options.index] : list.map((_, i) => i);
+
+            indices.forEach((index) => {
+                let material = list[index];
+                if (!material) return;
+                if (options.unique && !this.ownedMaterials.has(material)) {
+                    const copy = material.clone();
+                    this.ownedMaterials.add(copy);
+                    this.swappedMaterials.push({ holder, index, original: material });
+                    if (Array.isArray(holder.material)) holder.material[index] = copy;
+                    else holder.material = copy;
+                    material = copy;
+                }
+                if (!materials.includes(material)) materials.push(material);
+            });
+        };
+
+        if (options.deep) this.object.traverse(collect);
+        else collect(this.object);
+        return materials;
+    }
+
+    // Saves the value of a material field the first time it gets written
+    private remember(material: Material, key: string) {
+        let saved = this.materialState.get(material);
+        if (!saved) this.materialState.set(material, saved = {});
+        if (key in saved) return;
+        const value = (material as MaterialRecord)[key];
+        saved[key] = value instanceof Color ? value.clone() : value;
+    }
+
+    // Value of a field before the material API first touched it
+    private original<V>(material: Material, key: string): V {
+        const saved = this.materialState.get(material);
+        return (saved && key in saved ? saved[key] : (material as MaterialRecord)[key]) as V;
+    }
+
+    // Blending is part of the program, so toggling it needs a recompile
+    private settransparent(material: Material, transparent: boolean) {
+        if (material.transparent === transparent) return;
+        this.remember(material, 'transparent');
+        material.transparent = transparent;
+        material.needsUpdate = true;
+    }
+
+    private *materialnumber(key: MaterialNumber, value: number, time: number, ease: TimingFunction, options: MaterialOptions) {
+        const materials = this.materialsget(options) as MaterialRecord[];
+        const from = new Map<MaterialRecord, number>();
+        materials.forEach((material) => {
+            const current = material[key];
+            if (typeof current !== 'number') return;
+            this.remember(material, key);
+            from.set(material, current);
+        });
+
+        yield* tween(time, (t: number) => {
+            from.forEach((start, material) => {
+                material[key] = start + (value - start) * ease(t);
+            });
+        });
+    }
+
+    private *materialcolor(key: MaterialColor, value: ColorRepresentation, time: number, ease: TimingFunction, options: MaterialOptions) {
+        const materials = this.materialsget(options) as MaterialRecord[];
+        const from = new Map<Color, Color>();
+        materials.forEach((material) => {
+            const current = material[key];
+            if (!(current instanceof Color)) return;
+            this.remember(material, key);
+            from.set(current, current.clone());
+        });
+        const to = new Color(value);
+
+        yield* tween(time, (t: number) => {
+            from.forEach((start, color) => color.lerpColors(start, to, ease(t)));
+        });
+    }
+
+    color(value: ColorRepresentation, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.materialcolor('color', value, time, ease, options);
+    }
+
+    emissive(value: ColorRepresentation, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.materialcolor('emissive', value, time, ease, options);
+    }
+
+    emissiveintensity(value: number, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.materialnumber('emissiveIntensity', value, time, ease, options);
+    }
+
+    roughness(value: number, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.materialnumber('roughness', value, time, ease, options);
+    }
+
+    metalness(value: number, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        return this.materialnumber('metalness', value, time, ease, options);
+    }
+
+    // Puts a texture in a map slot (instant). Materials without that slot are skipped.
+    texture(slot: TextureSlot, texture: Texture | null, options: MaterialOptions = {}) {
+        this.materialsget(options).forEach((material) => {
+            if (!(slot in material)) return;
+            this.remember(material, slot);
+            (material as MaterialRecord)[slot] = texture;
+            // Adding or removing a map changes the shader defines
+            material.needsUpdate = true;
+        });
+        return this;
+    }
+
+    // Opacity tween; materials become transparent while below 1 and get
+    // their own `transparent` flag back once fully opaque again
+    *opacity(value: number, time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        const materials = this.materialsget(options);
+        materials.forEach((material) => {
+            this.remember(material, 'opacity');
+            if (value < 1) this.settransparent(material, true);
+        });
+
+        yield* this.materialnumber('opacity', value, time, ease, options);
+
+        if (value >= 1) {
+            materials.forEach((material) => this.settransparent(material, this.original(material, 'transparent')));
+        }
+    }
+
+    opacityget() {
+        const material = this.materialsget()[0];
+        return material ? material.opacity : 1;
+    }
+
+    private setvisible(object: Object3D, visible: boolean) {
+        if (!this.visibleState.has(object)) this.visibleState.set(object, object.visible);
+        object.visible = visible;
+    }
+
+    // Shows or hides the object, fading over `time` seconds when given
+    *visibility(visible: boolean, time: number = 0, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        if (time > 0) {
+            yield* (visible ? this.fadeIn(time, ease, options) : this.fadeOut(time, ease, options));
+            return;
+        }
+        this.setvisible(this.object, visible);
+    }
+
+    // Fades the whole hierarchy in from invisible to its current opacity
+    *fadeIn(time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        const deep = { ...options, deep: true };
+        const materials = this.materialsget(deep);
+        const wasHidden = !this.object.visible;
+        const targets = materials.map((material) => material.opacity);
+
+        materials.forEach((material) => {
+            this.remember(material, 'opacity');
+            this.settransparent(material, true);
+            if (wasHidden) material.opacity = 0;
+        });
+        this.setvisible(this.object, true);
+
+        const from = materials.map((material) => material.opacity);
+        yield* tween(time, (t: number) => {
+            materials.forEach((material, i) => {
+                material.opacity = from[i] + (targets[i] - from[i]) * ease(t);
+            });
+        });
+
+        materials.forEach((material) => this.settransparent(material, this.original(material, 'transparent')));
+    }
+
+    // Fades the whole hierarchy out, then hides it and restores the opacities
+    *fadeOut(time: number = 0.33, ease = easeInOutCubic, options: MaterialOptions = {}) {
+        const deep = { ...options, deep: true };
+        const materials = this.materialsget(deep);
+        materials.forEach((material) => {
+            this.remember(material, 'opacity');
+            this.settransparent(material, true);
+        });
+
+        const from = materials.map((material) => material.opacity);
+        yield* tween(time, (t: number) => {
+            materials.forEach((material, i) => {
+                material.opacity = from[i] * (1 - ease(t));
+            });
+        });
+
+        this.setvisible(this.object, false);
+        materials.forEach((material, i) => {
+            material.opacity = from[i];
+            this.settransparent(material, this.original(material, 'transparent'));
+        });
+    }
+
+    // Undo every material / visibility change made through this wrapper
+    private resetmaterials() {
+        this.swappedMaterials.reverse().forEach(({ holder, index, original }) => {
+            if (Array.isArray(holder.material)) holder.material[index] = original;
+            else holder.material = original;
+        });
+        this.swappedMaterials.length = 0;
+        this.ownedMaterials.forEach((material) => material.dispose());
+        this.ownedMaterials.clear();
+
+        this.materialState.forEach((saved, material) => {
+            Object.entries(saved).forEach(([key, value]) => {
+                const target = material as MaterialRecord;
+                const current = target[key];
+                if (value instanceof Color && current instanceof Color) current.copy(value);
+                else target[key] = value;
+                if (key === 'transparent' || key.endsWith('Map') || key === 'map') material.needsUpdate = true;
+            });
+        });
+        this.materialState.clear();
+
+        this.visibleState.forEach((visible, object) => { object.visible = visible; });
+        this.visibleState.clear();
+    }
+
     *select(ammount: number, time: number = 0.66, ease1 = easeInOutCubic, ease2 = easeInOutCubic) {
         yield* this.scalemul(ammount, time / 2, ease1);
         yield* this.scalediv(ammount, time / 2, ease2);
     }
 
+    // Restore every signal to the value captured when the wrapper was created
+    reset() {
+        if (this.object.parent !== this.initialParent) {
+            if (this.initialParent) this.initialParent.add(this.object);
+            else this.object.removeFromParent();
+        }
+        this.position.reset();
+        this.quaternion.reset();
+        this.scale.reset();
+        this.layers.clear();
+        this.positionoffset.reset();
+        this.quaternionoffset.reset();
+        this.resetmaterials();
+    }
+
+    // Stop syncing signals into the object
+    dispose() {
+        this.effects.forEach((dispose) => dispose());
+        this.effects.length = 0;
+    }
+
     remove(){
         this.object.removeFromParent();
     }
@@ -0,0 +1,111 @@
+import { all, createSignal, easeInOutCubic, SimpleSignal } from "@motion-canvas/core";
+import { MathUtils, OrthographicCamera, Vector3 } from "three";
+import ObjectWrapper, { WorldTarget } from "./ObjectWrapper";
+
+// View directions for technical drawings, in degrees.
+// Azimuth turns around world up from +Z towards +X, elevation tilts up from the ground.
+export const PROJECTION_PRESETS = {
+    // Equal foreshortening on all three axes
+    isometric: { azimuth: 45, elevation: MathUtils.radToDeg(Math.atan(1 / Math.SQRT2)) },
+    // The 2:1 "pixel art" dimetric, two axes share the foreshortening
+    dimetric: { azimuth: 45, elevation: 30 },
+    top: { azimuth: 0, elevation: 90 },
+    front: { azimuth: 0, elevation: 0 },
+    side: { azimuth: 90, elevation: 0 },
+};
+
+export type ProjectionPreset = keyof typeof PROJECTION_PRESETS;
+
+export default class OrthographicCameraWrapper extends ObjectWrapper<OrthographicCamera> {
+
+    // Camera zoom factor (1 shows the whole frustum)
+    public readonly zoomlevel: SimpleSignal<number, this>;
+    // Vertical size of the frustum in world units; the width follows the
+    // viewport aspect, which the Renderer keeps in sync
+    public readonly frustum: SimpleSignal<number, this>;
+
+    constructor(object: OrthographicCamera) {
+        super(object);
+
+        this.zoomlevel = createSignal(object.zoom, undefined, this);
+        this.frustum = createSignal(object.top - object.bottom, undefined, this);
+
+        this.effect(() => {
+            const height = this.frustum();
+            const camera = this.object;
+            const currentHeight = camera.top - camera.bottom;
+            const aspect = currentHeight !== 0 ? (camera.right - camera.left) / currentHeight : 1;
+
+            camera.top = height / 2;
+            camera.bottom = -height / 2;
+            camera.left = -height / 2 * aspect;
+            camera.right = height / 2 * aspect;
+            camera.zoom = this.zoomlevel();
+            camera.updateProjectionMatrix();
+        });
+    }
+
+    zoom(level: number, time: number = 1, ease = easeInOutCubic) {
+        return this.zoomlevel(Math.max(1e-3, level), time, ease);
+    }
+
+    zoomget() {
+        return this.zoomlevel();
+    }
+
+    // Zooms in by a factor (2 shows half the width)
+    *zoomin(factor: number = 1.5, time: number = 1, ease = easeInOutCubic) {
+        yield* this.zoom(this.zoomget() * factor, time, ease);
+    }
+
+    *zoomout(factor: number = 1.5, time: number = 1, ease = easeInOutCubic) {
+        yield* this.zoom(this.zoomget() / factor, time, ease);
+    }
+
+    frustumsize(height: number, time: number = 1, ease = easeInOutCubic) {
+        return this.frustum(Math.max(1e-6, height), time, ease);
+    }
+
+    // Moves to a preset view direction (or custom angles) around a center,
+    // looking at it. The distance only matters for clipping; it defaults to
+    // the current distance from the center.
+    *projection(
+        preset: ProjectionPreset | { azimuth: number, elevation: number },
+        center?: WorldTarget,
+        time: number = 1,
+        ease = easeInOutCubic,
+        distance?: number,
+    ) {
+        const { azimuth, elevation } = typeof preset === 'string' ? PROJECTION_PRESETS[preset] : preset;
+        const focus = center !== undefined ? this.worldpoint(center) : this.looktargetget() ?? new Vector3();
+        const range = distance ?? (this.worldpositionget().distanceTo(focus) || 10);
+
+        const az = MathUtils.degToRad(azimuth);
+        const el = MathUtils.degToRad(elevation);
+        const direction = new Vector3(
+            Math.sin(az) * Math.cos(el),
+            Math.sin(el),
+            Math.cos(az) * Math.cos(el),
+        );
+        const eye = focus.clone().addScaledVector(direction, range);
+
+        // Looking straight down needs another up vector than world up
+        const up = this.object.up.clone();
+        if (Math.abs(elevation) >= 90 - 1e-6) this.object.up.set(0, 0, -1);
+        const look = this.lookquaternion(focus, eye);
+        this.object.up.copy(up);
+
+        this.remembertarget(focus);
+        yield* all(
+            this.worldposition(eye, time, ease),
+            this.quaternion(look, time, ease),
+        );
+    }
+
+    override reset() {
+        super.reset();
+        this.zoomlevel.reset();
+        this.frustum.reset();
+    }
+
+}
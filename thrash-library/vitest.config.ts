@@ -0,0 +1,15 @@
+import {defineConfig} from 'vitest/config';
+
+// Tests run without the Motion Canvas plugin, in a DOM but without WebGL
+export default defineConfig({
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.{ts,tsx}'],
+    setupFiles: ['./src/test/setup.ts'],
+    server: {
+      deps: {
+        inline: [/@motion-canvas\//],
+      },
+    },
+  },
+});